@@ -1,20 +1,52 @@
 
-import React, { useState, useEffect, useRef, useCallback } from 'react';
+import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
 import Sidebar from './components/Sidebar';
 import ChatInput from './components/ChatInput';
 import ChatMessage from './components/ChatMessage';
-import VoiceOverlay from './components/VoiceOverlay';
+import VoiceOverlay, { LiveTurn } from './components/VoiceOverlay';
 import SplashScreen from './components/SplashScreen';
-import { ChatSession, Message, Role, Attachment, GeminiTone, DeviceType } from './types';
+import PersonaManager from './components/PersonaManager';
+import SessionSettingsPanel from './components/SessionSettingsPanel';
+import ContextMeter from './components/ContextMeter';
+import UsageDashboard from './components/UsageDashboard';
+import { SessionPatch } from './components/SessionItem';
+import { ChatSession, Message, Role, Attachment, GeminiTone, DeviceType, Persona, GenerationMode, InputMode } from './types';
 import { 
   sendMessageStream, 
   generateSmartTitle, 
   generateImage,
   generateVideo,
-  refinePrompt
-} from './services/geminiService';
-import { MenuIcon, BotIcon, GlobeIcon, BrainIcon, SparklesIcon, XIcon, MicIcon, CheckIcon } from './components/Icons';
+  refinePrompt,
+  classifyIntent,
+  generateSuggestions,
+  summarizeConversation,
+  resolveModel,
+  analyzeSentiment,
+  checkLogic,
+  createLiveTransport
+} from './services/chatService';
+import { LiveTransport } from './services/liveService';
+import { MenuIcon, BotIcon, GlobeIcon, BrainIcon, SparklesIcon, XIcon, MicIcon, CheckIcon, SlidersIcon, BarChartIcon } from './components/Icons';
 import { feedback } from './services/feedbackService';
+import { startBranch, switchBranch } from './services/branchService';
+import { sessionStore, releaseSessionMedia } from './services/storageService';
+import { parseSlashCommand } from './services/intentService';
+import { ExportFormat, exportSessions, exportFileName, downloadFile, importJSON } from './services/exportService';
+import { BUILT_IN_PERSONAS, loadCustomPersonas, saveCustomPersonas, personaSelection, resolvePersona } from './services/personaService';
+import { loadContextBudgets, saveContextBudgets, contextBudget, estimateTokens, promptTokens, fitContext, refreshSummary, conversationRecap, LIVE_RECAP_BUDGET } from './services/contextService';
+import { usageLedger, UsageRecord, totalUsage, recordsSince } from './services/usageService';
+import { PriceTable, BudgetLimits, loadPrices, savePrices, loadBudgetLimits, saveBudgetLimits, estimateCost, budgetWarnings } from './services/pricingService';
+import { SessionSettings, loadSessionDefaults, saveSessionDefaults, pickSettings, applySettingOverrides, replaceSettings } from './services/settingsService';
+
+const UNDO_DELETE_MS = 6000;
+
+interface Confirmation {
+  title: string;
+  lines: string[];
+  quote?: string;
+  confirmLabel: string;
+  resolve: (confirmed: boolean) => void;
+}
 
 const App: React.FC = () => {
   const [isAppReady, setIsAppReady] = useState(false);
@@ -24,27 +56,66 @@ const App: React.FC = () => {
   const [isSidebarOpen, setIsSidebarOpen] = useState(false);
   const [isGenerating, setIsGenerating] = useState(false);
   const [activeLiveMode, setActiveLiveMode] = useState<'voice' | 'vision' | null>(null);
-  const [tone, setTone] = useState<GeminiTone>('turbo'); 
-  const [isGrounding, setIsGrounding] = useState(true);
-  const [isThinking, setIsThinking] = useState(false); 
+  const [composerAttachments, setComposerAttachments] = useState<Attachment[]>([]); // handed to ChatInput, which takes them over
+  const [sessionDefaults, setSessionDefaults] = useState<SessionSettings>(loadSessionDefaults);
+  // Settings every new session starts from: the saved defaults plus any edits made while no session is selected.
+  const [draftSettings, setDraftSettings] = useState<SessionSettings>(sessionDefaults);
+  const [isSettingsOpen, setIsSettingsOpen] = useState(false);
+  const [contextBudgets, setContextBudgets] = useState<Record<string, number>>(loadContextBudgets);
+  const [customPersonas, setCustomPersonas] = useState<Persona[]>(loadCustomPersonas);
+  const [isPersonaManagerOpen, setIsPersonaManagerOpen] = useState(false);
   const [cloudStatus, setCloudStatus] = useState<'idle' | 'syncing' | 'verified'>('verified');
+  const [isStoreReady, setIsStoreReady] = useState(false);
+  const [errorBanner, setErrorBanner] = useState<string | null>(null);
+  const [recentlyDeleted, setRecentlyDeleted] = useState<{ sessions: ChatSession[]; currentId: string | null } | null>(null);
+  const [highlightedMessageId, setHighlightedMessageId] = useState<string | null>(null);
+  const [confirmation, setConfirmation] = useState<Confirmation | null>(null);
+  const [usageRecords, setUsageRecords] = useState<UsageRecord[]>(() => usageLedger.all());
+  const [prices, setPrices] = useState<PriceTable>(loadPrices);
+  const [budgetLimits, setBudgetLimits] = useState<BudgetLimits>(loadBudgetLimits);
+  const [isUsageOpen, setIsUsageOpen] = useState(false);
 
   const messagesEndRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+  const sessionControllersRef = useRef(new Map<string, AbortController>()); // latest generation per session; outlives the stream so deleting the session cancels follow-ups
+  const sendPendingRef = useRef(false); // a send is classifying or awaiting confirmation; state alone lags a double submit
+  const undoTimerRef = useRef<number | null>(null);
+  const liveSessionIdRef = useRef<string | null>(null); // session Live Mode turns are saved into
+  const liveTransportRef = useRef<LiveTransport | null>(null);
 
   useEffect(() => {
-    const saved = localStorage.getItem('ultra_chat_sessions_v3.2');
-    if (saved) {
-      try {
-        const parsed = JSON.parse(saved);
-        setSessions(parsed);
-        if (parsed.length > 0) setCurrentSessionId(parsed[0].id);
-      } catch (e) { console.error(e); }
-    }
+    const unsubscribe = sessionStore.onError(setErrorBanner);
+    sessionStore.load()
+      .then(loaded => {
+        setSessions(loaded);
+        if (loaded.length > 0) setCurrentSessionId(loaded[0].id);
+      })
+      .catch(e => { console.error(e); })
+      .finally(() => setIsStoreReady(true));
+    return unsubscribe;
   }, []);
 
   useEffect(() => {
-    localStorage.setItem('ultra_chat_sessions_v3.2', JSON.stringify(sessions));
-  }, [sessions]);
+    if (isStoreReady) sessionStore.save(sessions);
+  }, [sessions, isStoreReady]);
+
+  useEffect(() => {
+    saveCustomPersonas(customPersonas);
+  }, [customPersonas]);
+
+  useEffect(() => {
+    saveContextBudgets(contextBudgets);
+  }, [contextBudgets]);
+
+  useEffect(() => usageLedger.subscribe(records => setUsageRecords(records)), []);
+
+  useEffect(() => {
+    savePrices(prices);
+  }, [prices]);
+
+  useEffect(() => {
+    saveBudgetLimits(budgetLimits);
+  }, [budgetLimits]);
 
   const scrollToBottom = useCallback(() => {
     messagesEndRef.current?.scrollIntoView({ behavior: 'smooth' });
@@ -52,57 +123,362 @@ const App: React.FC = () => {
 
   useEffect(() => { scrollToBottom(); }, [sessions, isGenerating, scrollToBottom]);
 
+  useEffect(() => {
+    if (!highlightedMessageId) return;
+    document.getElementById(`message-${highlightedMessageId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    const timer = setTimeout(() => setHighlightedMessageId(null), 2500);
+    return () => clearTimeout(timer);
+  }, [highlightedMessageId, currentSessionId]);
+
   const currentSession = sessions.find(s => s.id === currentSessionId);
+  const activeSettings = currentSession ? pickSettings(currentSession) : draftSettings;
+  const basePersona = resolvePersona(activeSettings, customPersonas);
+  const activePersona = applySettingOverrides(basePersona, activeSettings);
+  const activeModel = resolveModel({ persona: activePersona, thinking: activeSettings.thinkingEnabled, model: activeSettings.model });
+  const activeBudget = contextBudget(activeModel, contextBudgets);
+  const systemTokens = estimateTokens(activePersona.systemInstruction);
+  const liveSession = activeLiveMode ? sessions.find(s => s.id === liveSessionIdRef.current) : undefined;
+  const liveRecap = useMemo(
+    () => liveSession && conversationRecap(liveSession.messages, LIVE_RECAP_BUDGET, liveSession.contextSummary),
+    [liveSession?.messages, liveSession?.contextSummary]
+  );
+  const contextUsage = currentSession && fitContext(currentSession.messages, activeBudget - systemTokens, activeSettings.contextStrategy!, currentSession.contextSummary);
 
-  const handleSend = async (text: string, attachments: Attachment[]) => {
-    setCloudStatus('syncing');
-    let activeSessionId = currentSessionId;
-    if (!activeSessionId) {
-      const newSession: ChatSession = { id: crypto.randomUUID(), title: 'Temporal Node', messages: [], updatedAt: Date.now() };
-      setSessions(prev => [newSession, ...prev]);
-      activeSessionId = newSession.id;
-      setCurrentSessionId(newSession.id);
+  const updateActiveSettings = (patch: Partial<SessionSettings>) => {
+    if (currentSessionId) {
+      setSessions(prev => prev.map(s => s.id === currentSessionId ? { ...s, ...patch } : s));
+    } else {
+      setDraftSettings(prev => ({ ...prev, ...patch }));
     }
+  };
 
-    const userMsg: Message = { id: crypto.randomUUID(), role: Role.USER, text, attachments, timestamp: Date.now() };
-    setSessions(prev => prev.map(s => s.id === activeSessionId ? { ...s, messages: [...s.messages, userMsg], updatedAt: Date.now() } : s));
-    setIsGenerating(true);
+  const handleSaveDefaults = () => {
+    const defaults = pickSettings(activeSettings);
+    setSessionDefaults(defaults);
+    setDraftSettings(defaults);
+    saveSessionDefaults(defaults);
+  };
 
-    const aiMsgId = crypto.randomUUID();
-    const aiMsg: Message = { id: aiMsgId, role: Role.MODEL, text: 'Scanning Neural Pathways...', timestamp: Date.now() };
-    setSessions(prev => prev.map(s => s.id === activeSessionId ? { ...s, messages: [...s.messages, aiMsg] } : s));
+  const handleExport = async (format: ExportFormat, sessionId?: string) => {
+    const selected = sessionId ? sessions.filter(s => s.id === sessionId) : sessions;
+    if (selected.length === 0) return;
+    try {
+      downloadFile(await exportSessions(format, selected, customPersonas), exportFileName(format, selected), format);
+      feedback.playSound('click');
+    } catch (e) {
+      console.error(e);
+      setErrorBanner(`Export failed: ${(e as Error)?.message || e}`);
+    }
+  };
 
+  const handleImport = async (file: File) => {
     try {
-      const isVideo = /video/i.test(text);
-      const isImage = /draw|image|picture/i.test(text) && attachments.length === 0;
-
-      if (isVideo) {
-        setSessions(prev => prev.map(s => s.id === activeSessionId ? { ...s, messages: s.messages.map(m => m.id === aiMsgId ? { ...m, text: "Initiating VEO-3.1 Synthesis Engine..." } : m) } : s));
-        const videoUrl = await generateVideo(text);
-        setSessions(prev => prev.map(s => s.id === activeSessionId ? { ...s, messages: s.messages.map(m => m.id === aiMsgId ? { ...m, text: "Synthesis Complete.", generatedVideo: videoUrl } : m) } : s));
-      } else if (isImage) {
-        setSessions(prev => prev.map(s => s.id === activeSessionId ? { ...s, messages: s.messages.map(m => m.id === aiMsgId ? { ...m, text: "Synthesizing Neural Visual..." } : m) } : s));
-        const imageUrl = await generateImage(text);
-        setSessions(prev => prev.map(s => s.id === activeSessionId ? { ...s, messages: s.messages.map(m => m.id === aiMsgId ? { ...m, text: "Visual Link Established.", generatedImage: imageUrl } : m) } : s));
-      } else {
-        const stream = sendMessageStream(currentSession?.messages || [], text, { tone, grounding: isGrounding, thinking: isThinking, attachments });
-        for await (const chunk of stream) {
-          setSessions(prev => prev.map(s => s.id === activeSessionId ? { ...s, messages: s.messages.map(m => m.id === aiMsgId ? { ...m, text: chunk.text, sources: chunk.sources } : m) } : s));
-        }
+      const imported = importJSON(await file.text(), sessions, customPersonas);
+      setSessions(prev => [...imported.sessions, ...prev]);
+      setCustomPersonas(prev => [...prev, ...imported.personas.filter(p => !prev.some(existing => existing.id === p.id))]);
+      if (imported.skippedPersonas.length) {
+        const names = imported.skippedPersonas.map(p => `"${p.name}"`).join(', ');
+        setErrorBanner(`Imported, but kept your own version of ${imported.skippedPersonas.length === 1 ? 'persona' : 'personas'} ${names}: the file's copy differs and shares its id.`);
       }
+      setCurrentSessionId(imported.sessions[0].id);
+      setIsSidebarOpen(false);
+      feedback.playSound('receive');
+    } catch (e) {
+      setErrorBanner((e as Error)?.message || String(e));
+    }
+  };
+
+  const handleUpdateSessions = (ids: string[], patch: SessionPatch) => {
+    setSessions(prev => prev.map(s => ids.includes(s.id) ? { ...s, ...patch } : s));
+  };
+
+  // Deleted sessions stay restorable until the undo toast expires; only then is their media released.
+  const handleDeleteSessions = (ids: string[]) => {
+    const removed = sessions.filter(s => ids.includes(s.id));
+    if (removed.length === 0) return;
+    for (const id of ids) {
+      sessionControllersRef.current.get(id)?.abort();
+      sessionControllersRef.current.delete(id);
+    }
+    if (undoTimerRef.current) window.clearTimeout(undoTimerRef.current);
+    recentlyDeleted?.sessions.forEach(releaseSessionMedia);
+    setSessions(prev => prev.filter(s => !ids.includes(s.id)));
+    const wasCurrent = currentSessionId && ids.includes(currentSessionId) ? currentSessionId : null;
+    if (wasCurrent) setCurrentSessionId(null);
+    setRecentlyDeleted({ sessions: removed, currentId: wasCurrent });
+    undoTimerRef.current = window.setTimeout(() => {
+      removed.forEach(releaseSessionMedia);
+      setRecentlyDeleted(null);
+      undoTimerRef.current = null;
+    }, UNDO_DELETE_MS);
+  };
+
+  const handleUndoDelete = () => {
+    if (!recentlyDeleted) return;
+    if (undoTimerRef.current) window.clearTimeout(undoTimerRef.current);
+    undoTimerRef.current = null;
+    setSessions(prev => [...recentlyDeleted.sessions, ...prev]);
+    if (recentlyDeleted.currentId) setCurrentSessionId(recentlyDeleted.currentId);
+    setRecentlyDeleted(null);
+    feedback.playSound('click');
+  };
+
+  const handleSelectPersona = (id: string) => {
+    feedback.playSound('click');
+    updateActiveSettings(personaSelection(id));
+  };
+
+  const patchMessage = (sessionId: string, messageId: string, patch: Partial<Message>) => {
+    setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, messages: s.messages.map(m => m.id === messageId ? { ...m, ...patch } : m) } : s));
+  };
+
+  const askConfirmation = (request: Omit<Confirmation, 'resolve'>): Promise<boolean> =>
+    new Promise(resolve => setConfirmation({ ...request, resolve }));
+
+  const resolveConfirmation = (confirmed: boolean) => {
+    confirmation?.resolve(confirmed);
+    setConfirmation(null);
+  };
 
-      if (currentSession?.messages.length === 1) {
-        generateSmartTitle(sessions.find(s => s.id === activeSessionId)?.messages || []).then(title => {
-          setSessions(prev => prev.map(s => s.id === activeSessionId ? { ...s, title } : s));
+  /** Video jobs are slow and expensive, and spending past a budget limit deserves a second look, so every route into a generation asks first. */
+  const confirmGeneration = async (sessionId: string | null, mode: GenerationMode, prompt: string): Promise<boolean> => {
+    if (mode === 'video' && !(await askConfirmation({
+      title: 'Start Video Synthesis?',
+      lines: ['Video jobs take several minutes and use considerably more quota than chat.'],
+      quote: prompt,
+      confirmLabel: 'Generate Video',
+    }))) return false;
+    const costOf = (r: UsageRecord) => estimateCost(r, prices);
+    const todayCost = totalUsage(recordsSince(usageRecords, 1), costOf).cost;
+    const sessionCost = sessionId ? totalUsage(usageRecords.filter(r => r.sessionId === sessionId), costOf).cost : 0;
+    const warnings = budgetWarnings(budgetLimits, todayCost, sessionCost);
+    if (warnings.length === 0) return true;
+    return askConfirmation({ title: 'Over Budget', lines: [...warnings, 'Limits are soft; you can still send.'], confirmLabel: 'Send Anyway' });
+  };
+
+  /** Fills the model message `aiMsgId` with a reply to the prompt `promptId`. Resolves false when it failed or was stopped. */
+  const runGeneration = async (sessionId: string, promptId: string, aiMsgId: string, history: Message[], text: string, attachments: Attachment[], mode: GenerationMode): Promise<boolean> => {
+    setCloudStatus('syncing');
+    setIsGenerating(true);
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    sessionControllersRef.current.set(sessionId, controller);
+    const { signal } = controller;
+    const startedAt = Date.now();
+    let receivedText = '';
+    let receivedThoughts: string | undefined;
+    let thinkingMs: number | undefined;
+
+    try {
+      if (mode === 'video') {
+        patchMessage(sessionId, aiMsgId, { text: "Initiating VEO-3.1 Synthesis Engine..." });
+        const videoUrl = await generateVideo(text, signal, sessionId);
+        patchMessage(sessionId, aiMsgId, { text: "Synthesis Complete.", generatedVideo: videoUrl });
+      } else if (mode === 'image') {
+        patchMessage(sessionId, aiMsgId, { text: "Synthesizing Neural Visual..." });
+        const imageUrl = await generateImage(text, signal, sessionId);
+        patchMessage(sessionId, aiMsgId, { text: "Visual Link Established.", generatedImage: imageUrl });
+      } else {
+        const strategy = activeSettings.contextStrategy!;
+        const budget = activeBudget - promptTokens(activePersona.systemInstruction, text, attachments);
+        const storedSummary = sessions.find(s => s.id === sessionId)?.contextSummary;
+        let summary = storedSummary;
+        if (strategy === 'summarize') {
+          try {
+            summary = await refreshSummary(history, budget, storedSummary, (messages, previous) => summarizeConversation(messages, previous, signal, sessionId));
+          } catch (err) {
+            if (signal.aborted) throw err;
+            console.error(err); // fitContext falls back to dropping turns
+          }
+          if (summary !== storedSummary) setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, contextSummary: summary } : s));
+        }
+        const context = fitContext(history, budget, strategy, summary);
+        const stream = sendMessageStream(context.messages, text, {
+          persona: activePersona,
+          grounding: activeSettings.groundingEnabled,
+          thinking: activeSettings.thinkingEnabled,
+          thinkingBudget: activeSettings.thinkingBudget,
+          model: activeSettings.model,
+          attachments,
+          signal,
+          sessionId,
         });
+        for await (const chunk of stream) {
+          receivedText = chunk.text;
+          receivedThoughts = chunk.thoughts;
+          if (receivedThoughts && receivedText && thinkingMs === undefined) thinkingMs = Date.now() - startedAt;
+          patchMessage(sessionId, aiMsgId, { text: chunk.text, thoughts: chunk.thoughts, thinkingMs, sources: chunk.sources });
+        }
+        if (receivedThoughts && thinkingMs === undefined) patchMessage(sessionId, aiMsgId, { thinkingMs: Date.now() - startedAt });
+        if (activeSettings.suggestionsEnabled) {
+          const exchange: Message[] = [
+            ...history,
+            { id: crypto.randomUUID(), role: Role.USER, text, timestamp: startedAt },
+            { id: aiMsgId, role: Role.MODEL, text: receivedText, timestamp: Date.now() },
+          ];
+          generateSuggestions(exchange, signal, sessionId).then(suggestions => {
+            if (suggestions.length) patchMessage(sessionId, aiMsgId, { suggestions });
+          }).catch(err => {
+            if (!signal.aborted) console.error(err); // the chips are optional; the reply stands without them
+          });
+        }
+        if (activeSettings.analysisEnabled && text.trim()) {
+          const analysisFailed = (err: unknown) => { if (!signal.aborted) console.error(err); }; // optional, like the chips
+          analyzeSentiment(text, signal, sessionId).then(sentiment => sentiment && patchMessage(sessionId, promptId, { sentiment })).catch(analysisFailed);
+          checkLogic(text, receivedText, signal, sessionId).then(logicCheck => logicCheck && patchMessage(sessionId, aiMsgId, { logicCheck })).catch(analysisFailed);
+        }
       }
       setCloudStatus('verified');
+      return true;
     } catch (err: any) {
-      setSessions(prev => prev.map(s => s.id === activeSessionId ? { ...s, messages: s.messages.map(m => m.id === aiMsgId ? { ...m, text: `Neural Exception: ${err.message}`, isError: true } : m) } : s));
+      if (signal.aborted) {
+        patchMessage(sessionId, aiMsgId, { text: receivedText, isStopped: true, thinkingMs: receivedThoughts ? thinkingMs ?? Date.now() - startedAt : undefined });
+        setCloudStatus('verified');
+        return false;
+      }
+      patchMessage(sessionId, aiMsgId, { text: `Neural Exception: ${err.message}`, isError: true, thinkingMs: receivedThoughts ? thinkingMs ?? Date.now() - startedAt : undefined });
       setCloudStatus('idle');
+      return false;
     } finally {
+      if (abortControllerRef.current === controller) abortControllerRef.current = null;
+      setIsGenerating(false);
+    }
+  };
+
+  const handleSend = async (text: string, attachments: Attachment[], inputMode: InputMode = 'chat'): Promise<boolean> => {
+    const slash = parseSlashCommand(text);
+    const prompt = slash ? slash.prompt : text;
+    if (!prompt.trim() && attachments.length === 0) return false;
+    if (isGenerating || sendPendingRef.current) return false;
+    const requestedMode = slash ? slash.mode : inputMode;
+    if (attachments.length > 0 && (requestedMode === 'image' || requestedMode === 'video')) {
+      setErrorBanner(`${requestedMode === 'image' ? 'Image' : 'Video'} generation works from text alone. Remove the attachments or send them as a chat message.`);
+      return false;
+    }
+
+    // Everything the send depends on is read now: the user may switch sessions while the classifier or a confirmation is pending.
+    const targetSessionId = currentSessionId;
+    const history = currentSession?.messages || [];
+    const newSessionSettings = draftSettings;
+    sendPendingRef.current = true;
+    setIsGenerating(true);
+
+    let mode: GenerationMode;
+    try {
+      if (requestedMode !== 'auto') {
+        mode = requestedMode;
+      } else if (attachments.length > 0) {
+        mode = 'chat'; // only chat reads attachments, so the classifier is not asked
+      } else {
+        setCloudStatus('syncing');
+        mode = await classifyIntent(prompt, undefined, targetSessionId ?? undefined);
+        setCloudStatus('verified');
+      }
+      if (!(await confirmGeneration(targetSessionId, mode, prompt))) {
+        setIsGenerating(false);
+        return false;
+      }
+    } catch (err) {
       setIsGenerating(false);
+      throw err;
+    } finally {
+      sendPendingRef.current = false;
+    }
+
+    let activeSessionId = targetSessionId;
+    if (!activeSessionId) {
+      const newSession: ChatSession = { id: crypto.randomUUID(), title: 'Temporal Node', messages: [], updatedAt: Date.now(), ...newSessionSettings };
+      setSessions(prev => [newSession, ...prev]);
+      activeSessionId = newSession.id;
+      setCurrentSessionId(prev => prev ?? newSession.id); // unless the user opened another session meanwhile
+    }
+    const sessionId = activeSessionId;
+
+    const userMsg: Message = { id: crypto.randomUUID(), role: Role.USER, text: prompt, attachments, mode: mode === 'chat' ? undefined : mode, timestamp: Date.now() };
+    const aiMsg: Message = { id: crypto.randomUUID(), role: Role.MODEL, text: 'Scanning Neural Pathways...', timestamp: Date.now() };
+    setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, messages: [...s.messages, userMsg, aiMsg], updatedAt: Date.now() } : s));
+
+    const succeeded = await runGeneration(sessionId, userMsg.id, aiMsg.id, history, prompt, attachments, mode);
+    if (succeeded && history.length === 1) {
+      generateSmartTitle(sessions.find(s => s.id === sessionId)?.messages || [], undefined, sessionId).then(title => {
+        setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, title } : s));
+      });
+    }
+    return true;
+  };
+
+  /** Re-runs the prompt that produced a model message, keeping the old reply as a sibling branch. */
+  const handleRegenerate = async (messageId: string) => {
+    if (!currentSession || isGenerating) return;
+    const index = currentSession.messages.findIndex(m => m.id === messageId);
+    const prompt = currentSession.messages[index - 1];
+    if (index < 1 || prompt.role !== Role.USER) return;
+    const mode = prompt.mode || 'chat';
+    if (!(await confirmGeneration(currentSession.id, mode, prompt.text))) return;
+    const sessionId = currentSession.id;
+    setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, messages: startBranch(s.messages, index, { text: 'Scanning Neural Pathways...', timestamp: Date.now() }), updatedAt: Date.now() } : s));
+    runGeneration(sessionId, prompt.id, messageId, currentSession.messages.slice(0, index - 1), prompt.text, prompt.attachments || [], mode);
+  };
+
+  /** Replaces a sent prompt and re-streams the reply; the original prompt and its tail stay reachable as a branch. */
+  const handleEdit = async (messageId: string, editedText: string) => {
+    if (!currentSession || isGenerating) return;
+    const index = currentSession.messages.findIndex(m => m.id === messageId);
+    const original = currentSession.messages[index];
+    if (index < 0 || original.role !== Role.USER) return;
+    const slash = parseSlashCommand(editedText);
+    const text = slash ? slash.prompt : editedText;
+    const mode = slash ? slash.mode : original.mode || 'chat';
+    if (!(await confirmGeneration(currentSession.id, mode, text))) return;
+    const sessionId = currentSession.id;
+    const attachments = original.attachments || [];
+    const aiMsg: Message = { id: crypto.randomUUID(), role: Role.MODEL, text: 'Scanning Neural Pathways...', timestamp: Date.now() };
+    setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, messages: [...startBranch(s.messages, index, { text, attachments, mode: mode === 'chat' ? undefined : mode, timestamp: Date.now() }), aiMsg], updatedAt: Date.now() } : s));
+    runGeneration(sessionId, messageId, aiMsg.id, currentSession.messages.slice(0, index), text, attachments, mode);
+  };
+
+  const openLiveMode = (mode: 'voice' | 'vision') => {
+    liveSessionIdRef.current = currentSessionId;
+    liveTransportRef.current = createLiveTransport();
+    setActiveLiveMode(mode);
+  };
+
+  /** Appends a transcribed Live Mode exchange, starting a session on the first one if none was open. */
+  const handleLiveTurn = (turn: LiveTurn) => {
+    const now = Date.now();
+    const messages: Message[] = [];
+    if (turn.userText || turn.frame) {
+      messages.push({ id: crypto.randomUUID(), role: Role.USER, text: turn.userText, attachments: turn.frame && [turn.frame], live: turn.mode, timestamp: now });
     }
+    if (turn.modelText) {
+      messages.push({ id: crypto.randomUUID(), role: Role.MODEL, text: turn.modelText, live: turn.mode, timestamp: now });
+    }
+
+    const sessionId = liveSessionIdRef.current;
+    if (sessionId) {
+      setSessions(prev => prev.map(s => s.id === sessionId ? { ...s, messages: [...s.messages, ...messages], updatedAt: now } : s));
+      return;
+    }
+    const newSession: ChatSession = { id: crypto.randomUUID(), title: 'Live Session', messages, updatedAt: now, ...draftSettings };
+    liveSessionIdRef.current = newSession.id;
+    setSessions(prev => [newSession, ...prev]);
+    setCurrentSessionId(newSession.id);
+    generateSmartTitle(messages, undefined, newSession.id).then(title => {
+      setSessions(prev => prev.map(s => s.id === newSession.id ? { ...s, title } : s));
+    });
+  };
+
+  const handleSwitchBranch = (messageId: string, branchIndex: number) => {
+    if (!currentSessionId || isGenerating) return;
+    setSessions(prev => prev.map(s => {
+      if (s.id !== currentSessionId) return s;
+      const index = s.messages.findIndex(m => m.id === messageId);
+      return index < 0 ? s : { ...s, messages: switchBranch(s.messages, index, branchIndex) };
+    }));
+  };
+
+  const handleStop = () => {
+    abortControllerRef.current?.abort();
   };
 
   if (!isAppReady) return <SplashScreen onFinish={(type) => { setDeviceType(type); setIsAppReady(true); }} />;
@@ -113,13 +489,87 @@ const App: React.FC = () => {
         <div className="absolute top-[-20%] left-[-10%] w-[80%] h-[80%] bg-blue-600/20 blur-[200px] rounded-full animate-aurora" />
       </div>
 
-      {activeLiveMode && (
+      {errorBanner && (
+        <div className="fixed top-6 left-1/2 -translate-x-1/2 z-[95] flex items-center gap-4 px-6 py-3 bg-red-950/80 backdrop-blur-2xl border border-red-500/30 rounded-2xl shadow-2xl animate-in slide-in-from-top-4 duration-500">
+          <span className="text-[11px] font-bold text-red-200 max-w-md">{errorBanner}</span>
+          <button onClick={() => setErrorBanner(null)} className="p-1.5 rounded-lg text-red-300 hover:text-white hover:bg-white/10"><XIcon className="w-4 h-4" /></button>
+        </div>
+      )}
+
+      {recentlyDeleted && (
+        <div className="fixed bottom-40 left-1/2 -translate-x-1/2 z-[95] flex items-center gap-5 px-6 py-3 bg-zinc-950/90 backdrop-blur-2xl border border-white/10 rounded-2xl shadow-2xl animate-in slide-in-from-bottom-4 duration-500">
+          <span className="text-[11px] font-bold text-zinc-300">
+            {recentlyDeleted.sessions.length === 1 ? `Deleted "${recentlyDeleted.sessions[0].title}"` : `Deleted ${recentlyDeleted.sessions.length} sessions`}
+          </span>
+          <button onClick={handleUndoDelete} className="text-[10px] font-black uppercase tracking-widest text-blue-400 hover:text-white">Undo</button>
+        </div>
+      )}
+
+      {isUsageOpen && (
+        <UsageDashboard
+          records={usageRecords}
+          sessions={sessions}
+          currentSessionId={currentSessionId}
+          prices={prices}
+          limits={budgetLimits}
+          onChangePrices={setPrices}
+          onChangeLimits={setBudgetLimits}
+          onClear={() => usageLedger.clear()}
+          onClose={() => setIsUsageOpen(false)}
+        />
+      )}
+
+      {confirmation && (
+        <div className="fixed inset-0 z-[90] bg-black/70 backdrop-blur-xl flex items-center justify-center p-6 animate-in fade-in duration-300">
+          <div className="w-full max-w-md bg-zinc-950/90 border border-white/10 rounded-[2.5rem] p-10 shadow-2xl">
+            <h3 className="text-[11px] font-black uppercase tracking-[0.3em] text-zinc-400 mb-4">{confirmation.title}</h3>
+            {confirmation.lines.map((line, i) => <p key={i} className="text-sm text-zinc-300 mb-2">{line}</p>)}
+            {confirmation.quote && <p className="text-[13px] text-zinc-500 italic line-clamp-3">"{confirmation.quote}"</p>}
+            <div className="flex justify-end gap-3 mt-8">
+              <button onClick={() => resolveConfirmation(false)} className="px-5 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest text-zinc-500 hover:text-white">Cancel</button>
+              <button onClick={() => resolveConfirmation(true)} className="px-5 py-2.5 rounded-xl bg-blue-600 hover:bg-blue-500 text-white text-[10px] font-black uppercase tracking-widest shadow-xl shadow-blue-900/40">{confirmation.confirmLabel}</button>
+            </div>
+          </div>
+        </div>
+      )}
+
+      {isPersonaManagerOpen && (
+        <PersonaManager
+          personas={customPersonas}
+          activePersonaId={activePersona.id}
+          onChange={setCustomPersonas}
+          onSelect={(id) => { handleSelectPersona(id); setIsPersonaManagerOpen(false); }}
+          onClose={() => setIsPersonaManagerOpen(false)}
+        />
+      )}
+
+      {isSettingsOpen && (
+        <SessionSettingsPanel
+          settings={activeSettings}
+          persona={basePersona}
+          onChange={updateActiveSettings}
+          onSaveAsDefaults={handleSaveDefaults}
+          onResetToDefaults={() => updateActiveSettings(replaceSettings(sessionDefaults))}
+          contextModel={activeModel}
+          contextBudget={activeBudget}
+          onChangeContextBudget={(budget: number | undefined) => setContextBudgets(prev => {
+            const { [activeModel]: _, ...rest } = prev;
+            return budget === undefined ? rest : { ...rest, [activeModel]: budget };
+          })}
+          onClose={() => setIsSettingsOpen(false)}
+        />
+      )}
+
+      {activeLiveMode && liveTransportRef.current && (
         <VoiceOverlay 
-          apiKey={process.env.API_KEY || ''} 
+          transport={liveTransportRef.current}
           initialMode={activeLiveMode} 
           deviceType={deviceType}
           onClose={() => setActiveLiveMode(null)} 
-          onConfirmText={(text) => handleSend(text, [])}
+          onTurnComplete={handleLiveTurn}
+          onSnapshot={(frame: Attachment) => setComposerAttachments(prev => [...prev, frame])}
+          persona={activePersona}
+          recap={liveRecap}
         />
       )}
       
@@ -129,12 +579,20 @@ const App: React.FC = () => {
           currentSessionId={currentSessionId} 
           onNewChat={() => {
             const id = crypto.randomUUID();
-            setSessions(p => [{id, title: 'Temporal Node', messages: [], updatedAt: Date.now()}, ...p]);
+            setSessions(p => [{id, title: 'Temporal Node', messages: [], updatedAt: Date.now(), ...draftSettings}, ...p]);
             setCurrentSessionId(id);
             setIsSidebarOpen(false);
           }} 
           onSelectChat={(id) => { setCurrentSessionId(id); setIsSidebarOpen(false); }} 
-          onDeleteChat={(id) => { setSessions(p => p.filter(s => s.id !== id)); if (currentSessionId === id) setCurrentSessionId(null); }}
+          onDeleteChats={handleDeleteSessions}
+          onUpdateSessions={handleUpdateSessions}
+          onExport={handleExport}
+          onImport={handleImport}
+          onOpenSearchResult={(sessionId, messageId) => {
+            setCurrentSessionId(sessionId);
+            setHighlightedMessageId(messageId);
+            setIsSidebarOpen(false);
+          }}
         />
       </aside>
 
@@ -148,24 +606,32 @@ const App: React.FC = () => {
                 <div className={`w-1.5 h-1.5 rounded-full ${cloudStatus === 'syncing' ? 'bg-yellow-500 animate-pulse' : 'bg-blue-500 shadow-[0_0_8px_rgba(59,130,246,0.6)]'}`} />
                 <span className="text-[8px] font-black uppercase tracking-widest text-zinc-600">Google Workspace Active</span>
               </div>
+              {contextUsage && (
+                <div className="mt-1.5">
+                  <ContextMeter context={contextUsage} reservedTokens={systemTokens} budget={activeBudget} model={activeModel} />
+                </div>
+              )}
             </div>
           </div>
 
           <div className="flex items-center gap-5">
             <div className="hidden lg:flex bg-zinc-950/80 rounded-2xl p-1 border border-white/5 shadow-2xl">
-              {(['turbo', 'creative', 'professional'] as GeminiTone[]).map(t => (
-                <button key={t} onClick={() => setTone(t)} className={`px-5 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${tone === t ? 'bg-blue-600 text-white shadow-xl shadow-blue-900/40 translate-y-[-1px]' : 'text-zinc-600 hover:text-white'}`}>{t}</button>
+              {(Object.keys(BUILT_IN_PERSONAS) as GeminiTone[]).map(t => (
+                <button key={t} onClick={() => handleSelectPersona(t)} className={`px-5 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all ${activePersona.id === t ? 'bg-blue-600 text-white shadow-xl shadow-blue-900/40 translate-y-[-1px]' : 'text-zinc-600 hover:text-white'}`}>{t}</button>
               ))}
+              <button onClick={() => setIsPersonaManagerOpen(true)} className={`px-5 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest transition-all max-w-[160px] truncate ${!activePersona.builtIn ? 'bg-blue-600 text-white shadow-xl shadow-blue-900/40 translate-y-[-1px]' : 'text-zinc-600 hover:text-white'}`}>{activePersona.builtIn ? 'Personas' : activePersona.name}</button>
             </div>
             
             <div className="h-6 w-[1px] bg-white/5 hidden sm:block" />
 
             <div className="flex items-center gap-3">
-              <button onClick={() => setIsGrounding(!isGrounding)} className={`p-3 rounded-2xl border transition-all ${isGrounding ? 'bg-blue-600/20 border-blue-500/50 text-blue-400 shadow-lg' : 'bg-white/5 border-white/5 text-zinc-600'}`} title="Neural Grounding"><GlobeIcon className="w-5 h-5" /></button>
-              <button onClick={() => setIsThinking(!isThinking)} className={`p-3 rounded-2xl border transition-all ${isThinking ? 'bg-purple-600/20 border-purple-500/50 text-purple-400 shadow-lg' : 'bg-white/5 border-white/5 text-zinc-600'}`} title="Reasoning Protocol"><BrainIcon className="w-5 h-5" /></button>
+              <button onClick={() => updateActiveSettings({ groundingEnabled: !activeSettings.groundingEnabled })} className={`p-3 rounded-2xl border transition-all ${activeSettings.groundingEnabled ? 'bg-blue-600/20 border-blue-500/50 text-blue-400 shadow-lg' : 'bg-white/5 border-white/5 text-zinc-600'}`} title="Neural Grounding"><GlobeIcon className="w-5 h-5" /></button>
+              <button onClick={() => updateActiveSettings({ thinkingEnabled: !activeSettings.thinkingEnabled })} className={`p-3 rounded-2xl border transition-all ${activeSettings.thinkingEnabled ? 'bg-purple-600/20 border-purple-500/50 text-purple-400 shadow-lg' : 'bg-white/5 border-white/5 text-zinc-600'}`} title="Reasoning Protocol"><BrainIcon className="w-5 h-5" /></button>
+              <button onClick={() => setIsSettingsOpen(true)} className="p-3 rounded-2xl border bg-white/5 border-white/5 text-zinc-600 hover:text-white transition-all" title="Session Settings"><SlidersIcon className="w-5 h-5" /></button>
+              <button onClick={() => setIsUsageOpen(true)} className="p-3 rounded-2xl border bg-white/5 border-white/5 text-zinc-600 hover:text-white transition-all" title="Usage & Cost"><BarChartIcon className="w-5 h-5" /></button>
             </div>
 
-            <button onClick={() => setActiveLiveMode('voice')} className="px-7 py-3 bg-blue-600 text-white rounded-[1.25rem] shadow-2xl shadow-blue-900/40 flex items-center gap-4 transition-all hover:scale-105 active:scale-95 group">
+            <button onClick={() => openLiveMode('voice')} className="px-7 py-3 bg-blue-600 text-white rounded-[1.25rem] shadow-2xl shadow-blue-900/40 flex items-center gap-4 transition-all hover:scale-105 active:scale-95 group">
               <MicIcon className="w-5 h-5 group-hover:animate-pulse" />
               <span className="text-[11px] font-black uppercase tracking-widest">Live Mode</span>
             </button>
@@ -183,7 +649,7 @@ const App: React.FC = () => {
                 <p className="text-zinc-500 max-w-sm text-[10px] font-black uppercase tracking-[0.5em] mb-16 opacity-60">Neural Infrastructure Link v3.2</p>
                 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-5 w-full max-w-2xl px-6">
-                   <button onClick={() => handleSend("Draw a cinematic cyberpunk metropolis at night", [])} className="p-10 rounded-[3rem] bg-white/[0.02] border border-white/5 hover:border-blue-500/40 text-left transition-all group hover:bg-blue-500/[0.03] shadow-2xl">
+                   <button onClick={() => handleSend("Draw a cinematic cyberpunk metropolis at night", [], 'image')} className="p-10 rounded-[3rem] bg-white/[0.02] border border-white/5 hover:border-blue-500/40 text-left transition-all group hover:bg-blue-500/[0.03] shadow-2xl">
                       <div className="flex items-center gap-3 mb-5"><SparklesIcon className="w-6 h-6 text-blue-500" /><span className="text-[11px] font-black text-blue-500 uppercase tracking-[0.2em]">Synthesis Engine</span></div>
                       <span className="text-sm font-bold text-zinc-300 group-hover:text-white transition-colors">Generate high-fidelity visual context...</span>
                    </button>
@@ -199,7 +665,13 @@ const App: React.FC = () => {
                   key={m.id} 
                   message={m} 
                   isLast={idx === currentSession.messages.length - 1} 
-                  onRegenerate={() => handleSend("Re-evaluate that previous response with higher precision.", [])} 
+                  isHighlighted={m.id === highlightedMessageId}
+                  isStreaming={isGenerating && idx === currentSession.messages.length - 1}
+                  onRegenerate={isGenerating ? undefined : handleRegenerate} 
+                  onSwitchBranch={isGenerating ? undefined : handleSwitchBranch}
+                  onEdit={isGenerating ? undefined : handleEdit}
+                  onSelectSuggestion={isGenerating ? undefined : (suggestion: string) => handleSend(suggestion, [])}
+                  sessionId={currentSession.id}
                 />
               ))
             )}
@@ -219,11 +691,13 @@ const App: React.FC = () => {
         <div className="absolute bottom-0 left-0 right-0 p-12 bg-gradient-to-t from-[#050607] via-[#050607]/90 to-transparent z-40">
           <ChatInput 
             onSend={handleSend} 
-            onVoiceStart={() => setActiveLiveMode('voice')} 
-            onRefine={async (t) => await refinePrompt(t)} 
-            onStop={() => setIsGenerating(false)} 
+            onVoiceStart={() => openLiveMode('voice')} 
+            onRefine={async (t) => await refinePrompt(t, undefined, currentSessionId ?? undefined)} 
+            onStop={handleStop} 
             isGenerating={isGenerating} 
             disabled={isGenerating} 
+            incomingAttachments={composerAttachments}
+            onIncomingAttachmentsTaken={() => setComposerAttachments([])}
           />
         </div>
       </main>
@@ -1,22 +1,34 @@
 
 import React, { useState, useRef, useEffect } from 'react';
 import { SendIcon, PaperclipIcon, TrashIcon, MicIcon, SparklesIcon, SquareIcon } from './Icons';
-import { Attachment } from '../types';
+import { Attachment, InputMode } from '../types';
 import { feedback } from '../services/feedbackService';
+import { matchingSlashCommands } from '../services/intentService';
+
+const INPUT_MODES: { mode: InputMode; label: string }[] = [
+  { mode: 'chat', label: 'Chat' },
+  { mode: 'image', label: 'Image' },
+  { mode: 'video', label: 'Video' },
+  { mode: 'auto', label: 'Auto' },
+];
 
 interface ChatInputProps {
-  onSend: (text: string, attachments: Attachment[]) => void;
+  // Resolving to false means the prompt was not sent, so the draft is restored.
+  onSend: (text: string, attachments: Attachment[], mode: InputMode) => void | boolean | Promise<boolean | void>;
   onVoiceStart: () => void;
   onRefine: (text: string) => Promise<string>;
   onStop?: () => void;
   isGenerating?: boolean;
   disabled?: boolean;
+  incomingAttachments?: Attachment[]; // added from outside the composer, such as Live Mode snapshots
+  onIncomingAttachmentsTaken?: () => void;
 }
 
-const ChatInput: React.FC<ChatInputProps> = ({ onSend, onVoiceStart, onRefine, onStop, isGenerating, disabled }) => {
+const ChatInput: React.FC<ChatInputProps> = ({ onSend, onVoiceStart, onRefine, onStop, isGenerating, disabled, incomingAttachments, onIncomingAttachmentsTaken }) => {
   const [input, setInput] = useState('');
   const [attachments, setAttachments] = useState<Attachment[]>([]);
   const [isRefining, setIsRefining] = useState(false);
+  const [mode, setMode] = useState<InputMode>('chat');
   const textareaRef = useRef<HTMLTextAreaElement>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
 
@@ -29,15 +41,29 @@ const ChatInput: React.FC<ChatInputProps> = ({ onSend, onVoiceStart, onRefine, o
 
   useEffect(() => { adjustHeight(); }, [input]);
 
-  const handleSend = (e?: React.MouseEvent | React.KeyboardEvent) => {
+  useEffect(() => {
+    if (!incomingAttachments?.length) return;
+    setAttachments(prev => [...prev, ...incomingAttachments]);
+    onIncomingAttachmentsTaken?.();
+  }, [incomingAttachments]);
+
+  const slashSuggestions = matchingSlashCommands(input);
+
+  const handleSend = async (e?: React.MouseEvent | React.KeyboardEvent) => {
     if (e) e.preventDefault();
     if ((input.trim() || attachments.length > 0) && !isGenerating) {
       feedback.vibrate(20);
       feedback.playSound('send');
-      onSend(input, attachments);
+      const sentText = input;
+      const sentAttachments = attachments;
       setInput('');
       setAttachments([]);
       if (textareaRef.current) textareaRef.current.style.height = 'auto';
+      const accepted = await onSend(sentText, sentAttachments, mode);
+      if (accepted === false) {
+        setInput(sentText);
+        setAttachments(sentAttachments);
+      }
     }
   };
 
@@ -121,6 +147,36 @@ const ChatInput: React.FC<ChatInputProps> = ({ onSend, onVoiceStart, onRefine, o
           </div>
         )}
 
+        {slashSuggestions.length > 0 && (
+          <div className="flex flex-col p-3 bg-black/30 border-b border-white/5">
+            {slashSuggestions.map(c => (
+              <button
+                key={c.command}
+                type="button"
+                onClick={() => { setInput(`${c.command} `); textareaRef.current?.focus(); }}
+                className="flex items-center gap-4 px-4 py-2.5 rounded-xl text-left hover:bg-white/5 transition-all"
+              >
+                <span className="text-[13px] font-mono font-bold text-blue-400">{c.command}</span>
+                <span className="text-[11px] text-zinc-500">{c.description}</span>
+              </button>
+            ))}
+          </div>
+        )}
+
+        <div className="flex items-center gap-1 px-8 pt-4">
+          {INPUT_MODES.map(m => (
+            <button
+              key={m.mode}
+              type="button"
+              onClick={() => { feedback.playSound('click'); setMode(m.mode); }}
+              className={`px-3.5 py-1.5 rounded-xl text-[9px] font-black uppercase tracking-widest transition-all ${mode === m.mode ? 'bg-blue-600/20 text-blue-400 border border-blue-500/30' : 'text-zinc-600 hover:text-white border border-transparent'}`}
+              title={m.mode === 'auto' ? 'Let the model decide between chat, image and video' : undefined}
+            >
+              {m.label}
+            </button>
+          ))}
+        </div>
+
         <div className="flex items-end gap-2 px-6 py-4">
           <button 
             type="button"
@@ -149,7 +205,7 @@ const ChatInput: React.FC<ChatInputProps> = ({ onSend, onVoiceStart, onRefine, o
                 handleSend();
               }
             }}
-            placeholder="Neural prompt engine active..."
+            placeholder={mode === 'image' ? 'Describe the image to synthesize...' : mode === 'video' ? 'Describe the video to synthesize...' : 'Neural prompt engine active... (type / for commands)'}
             className="flex-1 bg-transparent border-none focus:ring-0 text-white placeholder-zinc-700 py-4 resize-none max-h-[300px] outline-none text-[17px] font-medium leading-relaxed"
             disabled={isGenerating}
           />
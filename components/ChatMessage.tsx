@@ -4,23 +4,57 @@ import { Message, Role } from '../types';
 import { 
   UserIcon, BotIcon, ExternalLinkIcon, SparklesIcon, 
   BrainIcon, Volume2Icon, CopyIcon, CheckIcon, RotateCwIcon, GlobeIcon,
-  DownloadIcon
+  DownloadIcon, SquareIcon, ChevronLeftIcon, ChevronRightIcon, PencilIcon, MicIcon, EyeIcon
 } from './Icons';
 import MarkdownRenderer from './MarkdownRenderer';
-import { synthesizeSpeech, decodePCM } from '../services/geminiService';
+import ReasoningPanel from './ReasoningPanel';
+import LogicCheckPanel from './LogicCheckPanel';
+import { decodePCM } from '../services/geminiService';
+import { synthesizeSpeech } from '../services/chatService';
 import { feedback } from '../services/feedbackService';
+import { branchCount } from '../services/branchService';
+import { messageTokens, formatTokens } from '../services/contextService';
 
 interface ChatMessageProps {
   message: Message;
   isLast?: boolean;
+  isHighlighted?: boolean; // briefly set when opened from search
+  isStreaming?: boolean;
   onSelectSuggestion?: (text: string) => void;
   onRegenerate?: (id: string) => void;
+  onSwitchBranch?: (id: string, branchIndex: number) => void;
+  onEdit?: (id: string, text: string) => void;
+  sessionId?: string; // billed for read-aloud
 }
 
-const ChatMessage: React.FC<ChatMessageProps> = ({ message, isLast, onSelectSuggestion, onRegenerate }) => {
+const sentimentClass = (score: number) =>
+  score > 0.15 ? 'text-emerald-400' : score < -0.15 ? 'text-rose-400' : 'text-zinc-500';
+
+const ChatMessage: React.FC<ChatMessageProps> = ({ message, isLast, isHighlighted, isStreaming, onSelectSuggestion, onRegenerate, onSwitchBranch, onEdit, sessionId }) => {
   const isUser = message.role === Role.USER;
+  const branches = branchCount(message);
+  const activeBranch = message.activeBranch ?? 0;
+  const imageAttachments = (message.attachments || []).filter(a => a.mimeType.startsWith('image/') && a.url);
   const [isSynthesizing, setIsSynthesizing] = useState(false);
   const [copied, setCopied] = useState(false);
+  const [isEditing, setIsEditing] = useState(false);
+  const [draft, setDraft] = useState(message.text);
+
+  const startEditing = () => {
+    feedback.vibrate(10);
+    setDraft(message.text);
+    setIsEditing(true);
+  };
+
+  const submitEdit = () => {
+    const text = draft.trim();
+    if (!text || !onEdit) return;
+    setIsEditing(false);
+    if (text !== message.text.trim()) {
+      feedback.playSound('send');
+      onEdit(message.id, text);
+    }
+  };
 
   const handleCopy = () => {
     navigator.clipboard.writeText(message.text);
@@ -34,7 +68,7 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, isLast, onSelectSugg
     feedback.vibrate(10);
     setIsSynthesizing(true);
     try {
-      const audioData = await synthesizeSpeech(message.text);
+      const audioData = await synthesizeSpeech(message.text, undefined, sessionId);
       const audioCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
       const buffer = await decodePCM(audioData, audioCtx, 24000, 1);
       const source = audioCtx.createBufferSource();
@@ -59,8 +93,20 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, isLast, onSelectSugg
     document.body.removeChild(link);
   };
 
+  const handleDownloadVideo = () => {
+    if (!message.generatedVideo) return;
+    feedback.vibrate(20);
+    feedback.playSound('click');
+    const link = document.createElement('a');
+    link.href = message.generatedVideo;
+    link.download = `neural-synthesis-${message.id.slice(0, 8)}.mp4`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+  };
+
   return (
-    <div className={`flex w-full mb-10 group animate-in slide-in-from-bottom-8 duration-700 ${isUser ? 'justify-end' : 'justify-start'}`}>
+    <div id={`message-${message.id}`} className={`flex w-full mb-10 group animate-in slide-in-from-bottom-8 duration-700 ${isUser ? 'justify-end' : 'justify-start'}`}>
       <div className={`flex max-w-[95%] md:max-w-[85%] ${isUser ? 'flex-row-reverse' : 'flex-row'}`}>
         
         <div className={`flex-shrink-0 w-11 h-11 rounded-2xl flex items-center justify-center mt-1 shadow-2xl transition-all duration-500
@@ -71,8 +117,54 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, isLast, onSelectSugg
         <div className={`flex flex-col ${isUser ? 'items-end' : 'items-start'}`}>
           <div className={`px-8 py-6 rounded-[2rem] border transition-all duration-500 relative ${
             isUser ? 'bg-blue-600/10 border-blue-500/20 rounded-tr-none' : 'bg-zinc-950/60 border-white/5 glass-blur rounded-tl-none'
-          }`}>
-            <MarkdownRenderer content={message.text} />
+          } ${isHighlighted ? 'ring-2 ring-blue-500/60 shadow-[0_0_40px_rgba(59,130,246,0.35)]' : ''}`}>
+            {message.thoughts && (
+              <ReasoningPanel thoughts={message.thoughts} startedAt={message.timestamp} thinkingMs={message.thinkingMs} isStreaming={!!isStreaming} />
+            )}
+
+            {isEditing ? (
+              <div className="flex flex-col gap-3 min-w-[280px] md:min-w-[480px]">
+                <textarea
+                  value={draft}
+                  onChange={(e) => setDraft(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); submitEdit(); }
+                    if (e.key === 'Escape') setIsEditing(false);
+                  }}
+                  rows={Math.min(10, draft.split('\n').length + 1)}
+                  autoFocus
+                  className="w-full bg-black/30 border border-white/10 rounded-2xl px-4 py-3 text-[15px] text-white outline-none resize-none focus:border-blue-500/30"
+                />
+                <div className="flex justify-end gap-2">
+                  <button onClick={() => setIsEditing(false)} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-zinc-500 hover:text-white">Cancel</button>
+                  <button onClick={submitEdit} className="px-4 py-2 rounded-xl bg-blue-600 hover:bg-blue-500 text-white text-[10px] font-black uppercase tracking-widest">Save & Resend</button>
+                </div>
+              </div>
+            ) : (
+              <MarkdownRenderer content={message.text} />
+            )}
+
+            {message.isStopped && (
+              <div className="flex items-center gap-2 mt-4 text-zinc-500 text-[9px] font-black uppercase tracking-widest">
+                <SquareIcon className="w-3 h-3 text-red-500" />
+                Generation stopped
+              </div>
+            )}
+
+            {imageAttachments.length > 0 && (
+              <div className="flex flex-wrap gap-3 mt-4">
+                {imageAttachments.map((a, i) => (
+                  <img key={i} src={a.url} alt={a.name} className="w-28 h-28 object-cover rounded-2xl border border-white/10 shadow-lg" />
+                ))}
+              </div>
+            )}
+
+            {message.live && (
+              <div className="flex items-center gap-2 mt-4 text-zinc-500 text-[9px] font-black uppercase tracking-widest">
+                {message.live === 'vision' ? <EyeIcon className="w-3 h-3" /> : <MicIcon className="w-3 h-3" />}
+                Live {message.live}
+              </div>
+            )}
             
             {message.generatedImage && (
               <div className="mt-6 relative group/image rounded-2xl overflow-hidden border border-white/5 shadow-2xl bg-black">
@@ -88,8 +180,15 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, isLast, onSelectSugg
             )}
 
             {message.generatedVideo && (
-              <div className="mt-6 rounded-2xl overflow-hidden border border-white/5 shadow-2xl bg-black">
+              <div className="mt-6 relative group/video rounded-2xl overflow-hidden border border-white/5 shadow-2xl bg-black">
                 <video controls className="w-full aspect-video"><source src={message.generatedVideo} type="video/mp4" /></video>
+                <button 
+                  onClick={handleDownloadVideo}
+                  className="absolute top-4 right-4 p-3 bg-black/60 backdrop-blur-xl border border-white/10 rounded-2xl text-white opacity-0 group-hover/video:opacity-100 transition-all hover:bg-blue-600 hover:border-blue-500 active:scale-95 shadow-2xl"
+                  title="Download Video"
+                >
+                  <DownloadIcon className="w-5 h-5" />
+                </button>
               </div>
             )}
 
@@ -110,8 +209,28 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, isLast, onSelectSugg
                 </div>
               </div>
             )}
+
+            {!isUser && message.logicCheck && <LogicCheckPanel check={message.logicCheck} />}
           </div>
 
+          {isUser && message.sentiment && (
+            <div
+              className={`flex items-center gap-2 mt-3 px-3 py-1 rounded-lg bg-white/5 text-[9px] font-black uppercase tracking-widest ${sentimentClass(message.sentiment.score)}`}
+              title={`Sentiment score ${message.sentiment.score.toFixed(2)}`}
+            >
+              <span className="tabular-nums">{message.sentiment.score > 0 ? '+' : ''}{message.sentiment.score.toFixed(1)}</span>
+              {message.sentiment.label}
+            </div>
+          )}
+
+          {isUser && onEdit && !isEditing && (
+            <div className="flex items-center gap-3 mt-4 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
+              <button onClick={startEditing} className="p-2 rounded-xl bg-white/5 border border-white/10 text-zinc-500 hover:text-white" title="Edit">
+                <PencilIcon className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+
           {!isUser && (
             <div className="flex items-center gap-3 mt-4 opacity-0 group-hover:opacity-100 transition-opacity duration-300">
               <button onClick={handleSpeak} className={`p-2 rounded-xl border transition-all ${isSynthesizing ? 'bg-blue-600 text-white' : 'bg-white/5 border-white/10 text-zinc-500 hover:text-white'}`}>
@@ -120,11 +239,47 @@ const ChatMessage: React.FC<ChatMessageProps> = ({ message, isLast, onSelectSugg
               <button onClick={handleCopy} className="p-2 rounded-xl bg-white/5 border border-white/10 text-zinc-500 hover:text-white">
                 {copied ? <CheckIcon className="w-4 h-4 text-green-500" /> : <CopyIcon className="w-4 h-4" />}
               </button>
-              {isLast && onRegenerate && (
-                <button onClick={() => onRegenerate(message.id)} className="p-2 rounded-xl bg-white/5 border border-white/10 text-zinc-500 hover:text-white">
+              {onRegenerate && (
+                <button onClick={() => onRegenerate(message.id)} className="p-2 rounded-xl bg-white/5 border border-white/10 text-zinc-500 hover:text-white" title="Regenerate">
                   <RotateCwIcon className="w-4 h-4" />
                 </button>
               )}
+              <span className="text-[9px] font-black uppercase tracking-widest text-zinc-600 tabular-nums" title="Estimated tokens">~{formatTokens(messageTokens(message))} tokens</span>
+            </div>
+          )}
+
+          {branches > 1 && (
+            <div className={`flex items-center gap-1 mt-3 text-zinc-500 ${isUser ? 'flex-row-reverse' : ''}`}>
+              <button
+                onClick={() => onSwitchBranch?.(message.id, activeBranch - 1)}
+                disabled={!onSwitchBranch || activeBranch === 0}
+                className="p-1.5 rounded-lg hover:bg-white/5 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent transition-all"
+              >
+                <ChevronLeftIcon className="w-3.5 h-3.5" />
+              </button>
+              <span className="text-[10px] font-black tracking-widest tabular-nums">{activeBranch + 1}/{branches}</span>
+              <button
+                onClick={() => onSwitchBranch?.(message.id, activeBranch + 1)}
+                disabled={!onSwitchBranch || activeBranch === branches - 1}
+                className="p-1.5 rounded-lg hover:bg-white/5 hover:text-white disabled:opacity-30 disabled:hover:bg-transparent transition-all"
+              >
+                <ChevronRightIcon className="w-3.5 h-3.5" />
+              </button>
+            </div>
+          )}
+
+          {!isUser && isLast && onSelectSuggestion && message.suggestions && message.suggestions.length > 0 && (
+            <div className="flex flex-wrap gap-2 mt-6">
+              {message.suggestions.map((suggestion, i) => (
+                <button
+                  key={i}
+                  onClick={() => { feedback.vibrate(10); onSelectSuggestion(suggestion); }}
+                  className="flex items-center gap-2 px-4 py-2 rounded-xl bg-white/5 border border-white/10 text-[12px] text-zinc-400 font-bold text-left hover:text-white hover:border-blue-500/40 hover:bg-blue-500/10 transition-all"
+                >
+                  <SparklesIcon className="w-3 h-3 text-blue-500 flex-shrink-0" />
+                  {suggestion}
+                </button>
+              ))}
             </div>
           )}
         </div>
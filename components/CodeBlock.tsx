@@ -0,0 +1,96 @@
+
+import React, { useMemo, useState } from 'react';
+import { CopyIcon, CheckIcon, DownloadIcon, WrapTextIcon, ListOrderedIcon } from './Icons';
+import { highlight, tokensByLine, fileExtension, TokenType } from '../utils/highlight';
+import { feedback } from '../services/feedbackService';
+
+interface CodeBlockProps {
+  code: string;
+  lang: string;
+}
+
+const TOKEN_CLASSES: Record<TokenType, string> = {
+  comment: 'text-zinc-500 italic',
+  string: 'text-emerald-300',
+  number: 'text-orange-300',
+  keyword: 'text-purple-400',
+  literal: 'text-orange-400',
+  builtin: 'text-cyan-300',
+  function: 'text-blue-300',
+  type: 'text-yellow-200',
+  tag: 'text-rose-400',
+  attr: 'text-sky-300',
+  operator: 'text-zinc-400',
+  plain: '',
+};
+
+const CodeBlock: React.FC<CodeBlockProps> = ({ code, lang }) => {
+  const [copied, setCopied] = useState(false);
+  const [wrap, setWrap] = useState(false);
+  const [showLineNumbers, setShowLineNumbers] = useState(true);
+  const lines = useMemo(() => tokensByLine(highlight(code, lang)), [code, lang]);
+
+  const handleCopy = () => {
+    navigator.clipboard.writeText(code);
+    setCopied(true);
+    feedback.vibrate(10);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleDownload = () => {
+    feedback.vibrate(20);
+    feedback.playSound('click');
+    const url = URL.createObjectURL(new Blob([code], { type: 'text/plain' }));
+    const link = document.createElement('a');
+    link.href = url;
+    link.download = `snippet.${fileExtension(lang)}`;
+    document.body.appendChild(link);
+    link.click();
+    document.body.removeChild(link);
+    setTimeout(() => URL.revokeObjectURL(url), 1000); // some browsers start the download only after click() returns
+  };
+
+  const actionClass = (active = false) =>
+    `p-1.5 rounded-lg transition-all ${active ? 'text-blue-400 bg-blue-500/10' : 'text-zinc-500 hover:text-white hover:bg-white/5'}`;
+
+  return (
+    <div className="relative group my-6 rounded-2xl border border-white/10 bg-black/40 overflow-hidden">
+      <div className="flex items-center justify-between px-4 py-1.5 bg-white/5 border-b border-white/5">
+        <span className="text-[10px] text-gray-500 font-black uppercase tracking-widest">{lang || 'code'}</span>
+        <div className="flex items-center gap-1">
+          <button onClick={() => setShowLineNumbers(v => !v)} className={actionClass(showLineNumbers)} title="Line numbers">
+            <ListOrderedIcon className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={() => setWrap(v => !v)} className={actionClass(wrap)} title="Wrap lines">
+            <WrapTextIcon className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={handleDownload} className={actionClass()} title={`Download as .${fileExtension(lang)}`}>
+            <DownloadIcon className="w-3.5 h-3.5" />
+          </button>
+          <button onClick={handleCopy} className={actionClass()} title="Copy">
+            {copied ? <CheckIcon className="w-3.5 h-3.5 text-green-500" /> : <CopyIcon className="w-3.5 h-3.5" />}
+          </button>
+        </div>
+      </div>
+      <pre className={`py-4 text-sm leading-relaxed text-blue-100 font-mono select-text ${wrap ? 'whitespace-pre-wrap break-words' : 'overflow-x-auto'}`}>
+        <code className="table min-w-full">
+          {lines.map((line, i) => (
+            <span key={i} className="table-row">
+              {showLineNumbers && (
+                <span className="table-cell pl-4 pr-4 text-right text-zinc-600 select-none w-[1%] whitespace-nowrap">{i + 1}</span>
+              )}
+              <span className={`table-cell pr-5 ${showLineNumbers ? '' : 'pl-5'}`}>
+                {line.map((token, j) => (
+                  <span key={j} className={TOKEN_CLASSES[token.type]}>{token.value}</span>
+                ))}
+                {line.length === 0 && '\n'}
+              </span>
+            </span>
+          ))}
+        </code>
+      </pre>
+    </div>
+  );
+};
+
+export default CodeBlock;
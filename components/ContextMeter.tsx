@@ -0,0 +1,36 @@
+import React from 'react';
+import { FittedContext, formatTokens } from '../services/contextService';
+
+interface ContextMeterProps {
+  context: FittedContext;
+  reservedTokens: number; // system instruction, sent with every turn
+  budget: number;
+  model: string;
+}
+
+const ContextMeter: React.FC<ContextMeterProps> = ({ context, reservedTokens, budget, model }) => {
+  const used = context.tokens + reservedTokens;
+  const share = Math.min(1, used / budget);
+  const trimmed = context.droppedMessages > 0 || context.strippedAttachments > 0 || context.summarized;
+  const notes = [
+    context.summarized && 'older turns summarized',
+    context.strippedAttachments > 0 && `${context.strippedAttachments} attachment(s) left out`,
+    context.droppedMessages > 0 && `${context.droppedMessages} message(s) dropped`,
+  ].filter(Boolean).join(', ');
+
+  return (
+    <div className="flex items-center gap-2" title={`${model}: ~${used.toLocaleString()} of ${budget.toLocaleString()} tokens sent next turn${notes ? ` (${notes})` : ''}`}>
+      <div className="w-16 h-1 rounded-full bg-white/5 overflow-hidden">
+        <div
+          className={`h-full rounded-full transition-all ${trimmed ? 'bg-amber-500' : share > 0.8 ? 'bg-yellow-500' : 'bg-blue-500'}`}
+          style={{ width: `${share * 100}%` }}
+        />
+      </div>
+      <span className="text-[8px] font-black uppercase tracking-widest text-zinc-600 tabular-nums">
+        {formatTokens(used)} / {formatTokens(budget)}{trimmed && ' · trimmed'}
+      </span>
+    </div>
+  );
+};
+
+export default ContextMeter;
@@ -0,0 +1,23 @@
+
+import React from 'react';
+import { ExportFormat, EXPORT_FORMAT_OPTIONS } from '../services/exportService';
+
+interface ExportPickerProps {
+  onPick: (format: ExportFormat) => void;
+}
+
+const ExportPicker: React.FC<ExportPickerProps> = ({ onPick }) => (
+  <div className="flex items-center gap-1" onClick={(e) => e.stopPropagation()}>
+    {EXPORT_FORMAT_OPTIONS.map(f => (
+      <button
+        key={f.id}
+        onClick={() => onPick(f.id)}
+        className="px-2 py-1 rounded-lg bg-white/5 hover:bg-blue-600 hover:text-white text-[9px] font-black uppercase tracking-widest text-zinc-400 transition-all"
+      >
+        {f.label}
+      </button>
+    ))}
+  </div>
+);
+
+export default ExportPicker;
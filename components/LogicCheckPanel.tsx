@@ -0,0 +1,33 @@
+import React, { useState } from 'react';
+import { LogicCheck, LogicVerdict } from '../types';
+import { ShieldCheckIcon, ChevronRightIcon } from './Icons';
+
+interface LogicCheckPanelProps {
+  check: LogicCheck;
+}
+
+const VERDICT_STYLES: Record<LogicVerdict, { label: string; className: string }> = {
+  sound: { label: 'Logic check · sound', className: 'text-emerald-400 border-emerald-500/20 bg-emerald-500/[0.04]' },
+  uncertain: { label: 'Logic check · uncertain', className: 'text-amber-400 border-amber-500/20 bg-amber-500/[0.04]' },
+  flawed: { label: 'Logic check · flawed', className: 'text-rose-400 border-rose-500/20 bg-rose-500/[0.04]' },
+};
+
+const LogicCheckPanel: React.FC<LogicCheckPanelProps> = ({ check }) => {
+  const [isOpen, setIsOpen] = useState(false);
+  const style = VERDICT_STYLES[check.verdict];
+
+  return (
+    <div className={`mt-6 rounded-2xl border overflow-hidden ${style.className}`}>
+      <button onClick={() => setIsOpen(!isOpen)} className="w-full flex items-center gap-3 px-4 py-2.5 text-left opacity-80 hover:opacity-100 transition-all">
+        <ShieldCheckIcon className="w-3.5 h-3.5" />
+        <span className="flex-1 text-[9px] font-black uppercase tracking-widest">{style.label}</span>
+        <ChevronRightIcon className={`w-3.5 h-3.5 transition-transform ${isOpen ? 'rotate-90' : ''}`} />
+      </button>
+      {isOpen && (
+        <p className="px-5 pb-4 pt-3 border-t border-white/5 text-[13px] leading-relaxed text-zinc-300">{check.critique}</p>
+      )}
+    </div>
+  );
+};
+
+export default LogicCheckPanel;
@@ -1,68 +1,125 @@
 
-import React from 'react';
+import React, { useMemo } from 'react';
+import { Block, Inline, ListItem, parseMarkdown } from '../utils/markdown';
+import CodeBlock from './CodeBlock';
+import MathFormula from './MathFormula';
+import MermaidDiagram from './MermaidDiagram';
 
 interface MarkdownRendererProps {
   content: string;
 }
 
-const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ content }) => {
-  const formatText = (text: string) => {
-    // Basic regex-based formatting for bold, italics, and inline code
-    let formatted = text
-      .replace(/\*\*(.*?)\*\*/g, '<strong>$1</strong>')
-      .replace(/\*(.*?)\*/g, '<em>$1</em>')
-      .replace(/`(.*?)`/g, '<code class="bg-white/10 px-1.5 py-0.5 rounded font-mono text-sm">$1</code>');
-    
-    return <span dangerouslySetInnerHTML={{ __html: formatted }} />;
-  };
+const HEADING_CLASSES: Record<number, string> = {
+  1: 'text-2xl font-black tracking-tight mt-6 mb-4',
+  2: 'text-xl font-black tracking-tight mt-6 mb-3',
+  3: 'text-lg font-bold mt-5 mb-3',
+  4: 'text-base font-bold mt-4 mb-2',
+  5: 'text-sm font-bold uppercase tracking-widest mt-4 mb-2',
+  6: 'text-xs font-bold uppercase tracking-widest text-zinc-400 mt-4 mb-2',
+};
 
-  const renderContent = (text: string) => {
-    // Split by code blocks
-    const parts = text.split(/(```[\s\S]*?```)/g);
-    
-    return parts.map((part, index) => {
-      if (part.startsWith('```')) {
-        const lines = part.split('\n');
-        const lang = lines[0].replace('```', '').trim();
-        const code = lines.slice(1, -1).join('\n');
-        return (
-          <div key={index} className="relative group my-6">
-            <div className="absolute top-0 right-0 px-3 py-1 text-[10px] text-gray-500 font-black uppercase tracking-widest bg-white/5 rounded-bl-xl border-b border-l border-white/5">
-              {lang || 'code'}
-            </div>
-            <pre className="p-5 bg-black/40 rounded-2xl border border-white/10 overflow-x-auto text-sm leading-relaxed text-blue-100 font-mono">
-              <code>{code}</code>
-            </pre>
-          </div>
+const renderInline = (nodes: Inline[]): React.ReactNode[] =>
+  nodes.map((node, i) => {
+    switch (node.type) {
+      case 'text': return <React.Fragment key={i}>{node.value}</React.Fragment>;
+      case 'strong': return <strong key={i} className="font-bold text-white">{renderInline(node.children)}</strong>;
+      case 'em': return <em key={i}>{renderInline(node.children)}</em>;
+      case 'del': return <del key={i} className="text-zinc-500">{renderInline(node.children)}</del>;
+      case 'code': return <code key={i} className="bg-white/10 px-1.5 py-0.5 rounded font-mono text-sm">{node.value}</code>;
+      case 'math': return <MathFormula key={i} tex={node.tex} display={node.display} />;
+      case 'break': return <br key={i} />;
+      case 'link':
+        return node.href ? (
+          <a key={i} href={node.href} target="_blank" rel="noopener noreferrer" className="text-blue-400 underline decoration-blue-500/30 underline-offset-2 hover:decoration-blue-400">
+            {renderInline(node.children)}
+          </a>
+        ) : (
+          <span key={i} className="text-zinc-400">{renderInline(node.children)}</span>
         );
-      }
-      
-      // Handle normal paragraphs and lists
-      return part.split('\n').map((line, lineIdx) => {
-        if (!line.trim()) return <div key={lineIdx} className="h-4" />;
-        
-        // Bullet points
-        if (line.trim().startsWith('- ') || line.trim().startsWith('* ')) {
-          return (
-            <div key={lineIdx} className="flex gap-3 mb-2 ml-4">
-              <span className="text-blue-500 mt-1.5 w-1.5 h-1.5 rounded-full bg-blue-500 flex-shrink-0" />
-              <p className="text-gray-200 leading-relaxed text-[15px] flex-1">
-                {formatText(line.trim().substring(2))}
-              </p>
-            </div>
-          );
-        }
+    }
+  });
 
-        return (
-          <p key={lineIdx} className="mb-4 text-gray-200 leading-relaxed text-[15px] font-medium">
-            {formatText(line)}
-          </p>
-        );
-      });
-    });
-  };
+const renderListItem = (item: ListItem, ordered: boolean, index: number, start: number) => (
+  <li key={index} className="flex gap-3 mb-2">
+    {item.checked !== undefined ? (
+      <input type="checkbox" checked={item.checked} readOnly disabled className="mt-1.5 accent-blue-600 flex-shrink-0" />
+    ) : ordered ? (
+      <span className="text-blue-500 font-bold text-[13px] mt-0.5 min-w-[1.25rem] flex-shrink-0">{start + index}.</span>
+    ) : (
+      <span className="text-blue-500 mt-2 w-1.5 h-1.5 rounded-full bg-blue-500 flex-shrink-0" />
+    )}
+    <div className="flex-1 min-w-0 [&>p]:mb-1">{renderBlocks(item.children)}</div>
+  </li>
+);
+
+const renderBlock = (block: Block, key: number): React.ReactNode => {
+  switch (block.type) {
+    case 'heading': {
+      const Tag = `h${block.level}` as 'h1';
+      return <Tag key={key} className={`text-white ${HEADING_CLASSES[block.level]}`}>{renderInline(block.children)}</Tag>;
+    }
+    case 'paragraph':
+      return (
+        <p key={key} className="mb-4 text-gray-200 leading-relaxed text-[15px] font-medium">
+          {renderInline(block.children)}
+        </p>
+      );
+    case 'code':
+      if (block.lang === 'mermaid') return <MermaidDiagram key={key} code={block.code} />;
+      return <CodeBlock key={key} lang={block.lang} code={block.code} />;
+    case 'math':
+      return <MathFormula key={key} tex={block.tex} display />;
+    case 'blockquote':
+      return (
+        <blockquote key={key} className="my-4 pl-5 border-l-2 border-blue-500/40 text-zinc-400 italic">
+          {renderBlocks(block.children)}
+        </blockquote>
+      );
+    case 'list': {
+      const Tag = block.ordered ? 'ol' : 'ul';
+      return (
+        <Tag key={key} className="mb-4 ml-4 text-gray-200 leading-relaxed text-[15px]">
+          {block.items.map((item, i) => renderListItem(item, block.ordered, i, block.start))}
+        </Tag>
+      );
+    }
+    case 'table':
+      return (
+        <div key={key} className="my-6 overflow-x-auto rounded-2xl border border-white/10">
+          <table className="w-full text-[14px] text-gray-200 border-collapse">
+            <thead className="bg-white/5">
+              <tr>
+                {block.header.map((cell, c) => (
+                  <th key={c} style={{ textAlign: block.align[c] || 'left' }} className="px-4 py-2.5 font-black text-[11px] uppercase tracking-widest text-zinc-400 border-b border-white/10">
+                    {renderInline(cell)}
+                  </th>
+                ))}
+              </tr>
+            </thead>
+            <tbody>
+              {block.rows.map((row, r) => (
+                <tr key={r} className="border-b border-white/5 last:border-0">
+                  {row.map((cell, c) => (
+                    <td key={c} style={{ textAlign: block.align[c] || 'left' }} className="px-4 py-2.5">{renderInline(cell)}</td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      );
+    case 'hr':
+      return <hr key={key} className="my-8 border-white/10" />;
+  }
+};
+
+function renderBlocks(blocks: Block[]): React.ReactNode[] {
+  return blocks.map(renderBlock);
+}
 
-  return <div className="markdown-content">{renderContent(content)}</div>;
+const MarkdownRenderer: React.FC<MarkdownRendererProps> = ({ content }) => {
+  const blocks = useMemo(() => parseMarkdown(content), [content]);
+  return <div className="markdown-content">{renderBlocks(blocks)}</div>;
 };
 
 export default MarkdownRenderer;
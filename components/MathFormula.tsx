@@ -0,0 +1,38 @@
+
+import React, { useMemo } from 'react';
+import katex from 'katex';
+import 'katex/dist/katex.min.css';
+
+interface MathFormulaProps {
+  tex: string;
+  display: boolean;
+}
+
+/** Renders TeX with KaTeX, falling back to the raw source when it does not parse. */
+const MathFormula: React.FC<MathFormulaProps> = ({ tex, display }) => {
+  const html = useMemo(() => {
+    try {
+      // KaTeX escapes its input and, with trust off, emits no links or raw HTML.
+      return katex.renderToString(tex, { displayMode: display, throwOnError: true, trust: false, output: 'htmlAndMathml' });
+    } catch (e) {
+      return null;
+    }
+  }, [tex, display]);
+
+  if (html === null) {
+    const source = display ? `$$${tex}$$` : `$${tex}$`;
+    return display ? (
+      <pre className="my-4 p-4 bg-black/40 rounded-2xl border border-white/10 overflow-x-auto text-sm font-mono text-zinc-400" title="Could not render formula">{source}</pre>
+    ) : (
+      <code className="bg-white/10 px-1.5 py-0.5 rounded font-mono text-sm text-zinc-400" title="Could not render formula">{source}</code>
+    );
+  }
+
+  return display ? (
+    <div className="my-4 overflow-x-auto overflow-y-hidden text-white" dangerouslySetInnerHTML={{ __html: html }} />
+  ) : (
+    <span className="text-white" dangerouslySetInnerHTML={{ __html: html }} />
+  );
+};
+
+export default MathFormula;
@@ -0,0 +1,65 @@
+
+import React, { useEffect, useId, useState } from 'react';
+import CodeBlock from './CodeBlock';
+
+interface MermaidDiagramProps {
+  code: string;
+}
+
+type MermaidApi = typeof import('mermaid').default;
+
+let mermaidLoader: Promise<MermaidApi> | null = null;
+
+// Mermaid is large, so it is split into its own chunk and only fetched once a diagram appears.
+function loadMermaid(): Promise<MermaidApi> {
+  if (!mermaidLoader) {
+    mermaidLoader = import('mermaid').then(({ default: mermaid }) => {
+      mermaid.initialize({ startOnLoad: false, theme: 'dark', securityLevel: 'strict', fontFamily: 'Inter, sans-serif' });
+      return mermaid;
+    });
+  }
+  return mermaidLoader;
+}
+
+const MermaidDiagram: React.FC<MermaidDiagramProps> = ({ code }) => {
+  const id = `mermaid-${useId().replace(/[^a-zA-Z0-9-]/g, '')}`;
+  const [svg, setSvg] = useState<string | null>(null);
+  const [failed, setFailed] = useState(false);
+
+  useEffect(() => {
+    let cancelled = false;
+    // Debounced so a diagram that is still streaming is not re-rendered per chunk.
+    const timer = setTimeout(async () => {
+      try {
+        const mermaid = await loadMermaid();
+        if (!(await mermaid.parse(code, { suppressErrors: true }))) throw new Error('Invalid diagram');
+        const result = await mermaid.render(id, code);
+        if (!cancelled) { setSvg(result.svg); setFailed(false); }
+      } catch (e) {
+        if (!cancelled) { setSvg(null); setFailed(true); }
+      }
+    }, 300);
+    return () => {
+      cancelled = true;
+      clearTimeout(timer);
+    };
+  }, [code, id]);
+
+  if (!svg) {
+    return (
+      <div>
+        <CodeBlock lang="mermaid" code={code} />
+        {failed && <p className="-mt-4 mb-6 text-[10px] font-black uppercase tracking-widest text-zinc-600">Diagram could not be rendered</p>}
+      </div>
+    );
+  }
+
+  return (
+    <div
+      className="my-6 p-5 rounded-2xl border border-white/10 bg-black/40 overflow-x-auto flex justify-center [&>svg]:max-w-full [&>svg]:h-auto"
+      dangerouslySetInnerHTML={{ __html: svg }}
+    />
+  );
+};
+
+export default MermaidDiagram;
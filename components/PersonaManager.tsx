@@ -0,0 +1,117 @@
+
+import React, { useState } from 'react';
+import { Persona } from '../types';
+import { PlusIcon, TrashIcon, XIcon, CheckIcon } from './Icons';
+import { TEXT_MODEL, PRO_MODEL } from '../services/geminiService';
+import { feedback } from '../services/feedbackService';
+
+interface PersonaManagerProps {
+  personas: Persona[];
+  activePersonaId: string;
+  onChange: (personas: Persona[]) => void;
+  onSelect: (id: string) => void;
+  onClose: () => void;
+}
+
+const emptyDraft = (): Persona => ({
+  id: crypto.randomUUID(),
+  name: '',
+  systemInstruction: '',
+  temperature: 0.7,
+  model: TEXT_MODEL,
+});
+
+const PersonaManager: React.FC<PersonaManagerProps> = ({ personas, activePersonaId, onChange, onSelect, onClose }) => {
+  const [draft, setDraft] = useState<Persona | null>(null);
+
+  const handleSave = () => {
+    if (!draft || !draft.name.trim() || !draft.systemInstruction.trim()) return;
+    feedback.vibrate(10);
+    const exists = personas.some(p => p.id === draft.id);
+    onChange(exists ? personas.map(p => p.id === draft.id ? draft : p) : [...personas, draft]);
+    setDraft(null);
+  };
+
+  const handleDelete = (id: string) => {
+    feedback.vibrate(20);
+    onChange(personas.filter(p => p.id !== id));
+    if (draft?.id === id) setDraft(null);
+  };
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-black/70 backdrop-blur-xl flex items-center justify-center p-6 animate-in fade-in duration-300" onClick={onClose}>
+      <div className="w-full max-w-2xl max-h-[85vh] overflow-y-auto bg-zinc-950/90 border border-white/10 rounded-[2.5rem] p-10 shadow-2xl" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between mb-8">
+          <h3 className="text-[11px] font-black uppercase tracking-[0.3em] text-zinc-400">Custom Personas</h3>
+          <button onClick={onClose} className="p-2 rounded-xl hover:bg-white/5 text-zinc-500 hover:text-white transition-all"><XIcon className="w-5 h-5" /></button>
+        </div>
+
+        <div className="space-y-2 mb-8">
+          {personas.length === 0 && !draft && (
+            <p className="text-[10px] font-black uppercase tracking-widest text-zinc-700 py-6 text-center">No custom personas yet</p>
+          )}
+          {personas.map(p => (
+            <div key={p.id} className={`group flex items-center gap-3 px-5 py-4 rounded-3xl border transition-all ${activePersonaId === p.id ? 'bg-blue-600/10 border-blue-500/20 text-blue-400' : 'border-white/5 text-zinc-400 hover:bg-white/5'}`}>
+              <button onClick={() => onSelect(p.id)} className="flex-1 text-left">
+                <div className="text-[13px] font-bold tracking-tight">{p.name}</div>
+                <div className="text-[9px] font-black uppercase tracking-widest text-zinc-600">{p.model || TEXT_MODEL} · temp {p.temperature.toFixed(1)}</div>
+              </button>
+              {activePersonaId === p.id && <CheckIcon className="w-4 h-4 text-blue-500" />}
+              <button onClick={() => setDraft({ ...p })} className="px-3 py-1.5 rounded-xl text-[9px] font-black uppercase tracking-widest text-zinc-500 hover:text-white hover:bg-white/5">Edit</button>
+              <button onClick={() => handleDelete(p.id)} className="p-2 hover:bg-red-500/20 hover:text-red-500 rounded-xl transition-all"><TrashIcon className="w-3.5 h-3.5" /></button>
+            </div>
+          ))}
+        </div>
+
+        {draft ? (
+          <div className="space-y-4 p-6 rounded-3xl bg-black/40 border border-white/5">
+            <input
+              value={draft.name}
+              onChange={(e) => setDraft({ ...draft, name: e.target.value })}
+              placeholder="Persona name"
+              className="w-full px-4 py-3 bg-white/5 rounded-2xl border border-white/5 text-sm text-white outline-none focus:border-blue-500/30"
+            />
+            <textarea
+              value={draft.systemInstruction}
+              onChange={(e) => setDraft({ ...draft, systemInstruction: e.target.value })}
+              placeholder="System instruction"
+              rows={5}
+              className="w-full px-4 py-3 bg-white/5 rounded-2xl border border-white/5 text-sm text-white outline-none resize-none focus:border-blue-500/30"
+            />
+            <div className="flex items-center gap-4">
+              <span className="text-[9px] font-black uppercase tracking-widest text-zinc-500 w-28">Temp {draft.temperature.toFixed(1)}</span>
+              <input
+                type="range" min={0} max={2} step={0.1}
+                value={draft.temperature}
+                onChange={(e) => setDraft({ ...draft, temperature: Number(e.target.value) })}
+                className="flex-1 accent-blue-600"
+              />
+            </div>
+            <select
+              value={draft.model || TEXT_MODEL}
+              onChange={(e) => setDraft({ ...draft, model: e.target.value })}
+              className="w-full px-4 py-3 bg-white/5 rounded-2xl border border-white/5 text-[10px] font-black uppercase tracking-widest text-zinc-300 outline-none"
+            >
+              <option value={TEXT_MODEL}>{TEXT_MODEL}</option>
+              <option value={PRO_MODEL}>{PRO_MODEL}</option>
+            </select>
+            <div className="flex justify-end gap-3">
+              <button onClick={() => setDraft(null)} className="px-5 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest text-zinc-500 hover:text-white">Cancel</button>
+              <button onClick={handleSave} className="px-5 py-2.5 rounded-xl bg-blue-600 hover:bg-blue-500 text-white text-[10px] font-black uppercase tracking-widest shadow-xl shadow-blue-900/40">Save</button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={() => setDraft(emptyDraft())}
+            className="w-full flex items-center justify-center gap-3 px-6 py-4 bg-white/5 hover:bg-white/10 text-zinc-300 rounded-3xl border border-white/5 transition-all font-black uppercase tracking-widest text-[11px]"
+          >
+            <PlusIcon className="w-4 h-4" />
+            New Persona
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default PersonaManager;
@@ -0,0 +1,50 @@
+
+import React, { useEffect, useState } from 'react';
+import { BrainIcon, ChevronRightIcon } from './Icons';
+import MarkdownRenderer from './MarkdownRenderer';
+
+interface ReasoningPanelProps {
+  thoughts: string;
+  startedAt: number;
+  thinkingMs?: number; // unset while the model is still thinking
+  isStreaming: boolean;
+}
+
+const formatElapsed = (ms: number) => ms < 60000 ? `${(ms / 1000).toFixed(1)}s` : `${Math.floor(ms / 60000)}m ${Math.round((ms % 60000) / 1000)}s`;
+
+const ReasoningPanel: React.FC<ReasoningPanelProps> = ({ thoughts, startedAt, thinkingMs, isStreaming }) => {
+  const isThinking = thinkingMs === undefined && isStreaming;
+  // null follows the stream: open while thinking, collapsed once the answer starts.
+  const [isOpen, setIsOpen] = useState<boolean | null>(null);
+  const [now, setNow] = useState(Date.now());
+  const expanded = isOpen ?? isThinking;
+
+  useEffect(() => {
+    if (!isThinking) return;
+    const timer = setInterval(() => setNow(Date.now()), 100);
+    return () => clearInterval(timer);
+  }, [isThinking]);
+
+  return (
+    <div className="mb-5 rounded-2xl border border-purple-500/20 bg-purple-500/[0.04] overflow-hidden">
+      <button
+        onClick={() => setIsOpen(!expanded)}
+        className="w-full flex items-center gap-3 px-4 py-2.5 text-left text-purple-300/80 hover:text-purple-200 transition-all"
+      >
+        <BrainIcon className={`w-3.5 h-3.5 ${isThinking ? 'animate-pulse' : ''}`} />
+        <span className="flex-1 text-[9px] font-black uppercase tracking-widest">
+          {isThinking ? 'Thinking' : 'Reasoning'}
+          {(isThinking || thinkingMs !== undefined) && ` · ${formatElapsed(thinkingMs ?? Math.max(0, now - startedAt))}`}
+        </span>
+        <ChevronRightIcon className={`w-3.5 h-3.5 transition-transform ${expanded ? 'rotate-90' : ''}`} />
+      </button>
+      {expanded && (
+        <div className="px-5 pb-1 max-h-80 overflow-y-auto opacity-70 text-sm border-t border-purple-500/10 pt-4">
+          <MarkdownRenderer content={thoughts} />
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default ReasoningPanel;
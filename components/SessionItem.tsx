@@ -0,0 +1,165 @@
+
+import React, { useState } from 'react';
+import { ChatSession } from '../types';
+import { TrashIcon, DownloadIcon, PencilIcon, PinIcon, TagIcon, ArchiveIcon } from './Icons';
+import ExportPicker from './ExportPicker';
+import { ExportFormat } from '../services/exportService';
+
+export type SessionPatch = Partial<Pick<ChatSession, 'title' | 'pinned' | 'archived' | 'folder' | 'tags'>>;
+
+interface SessionItemProps {
+  session: ChatSession;
+  isActive: boolean;
+  isSelecting: boolean;
+  isSelected: boolean;
+  folders: string[];
+  onSelect: () => void;
+  onToggleSelected: () => void;
+  onUpdate: (patch: SessionPatch) => void;
+  onDelete: () => void;
+  onExport: (format: ExportFormat) => void;
+}
+
+export const parseTags = (input: string) =>
+  [...new Set(input.split(',').map(t => t.trim().replace(/^#/, '')).filter(Boolean))];
+
+const SessionItem: React.FC<SessionItemProps> = ({
+  session,
+  isActive,
+  isSelecting,
+  isSelected,
+  folders,
+  onSelect,
+  onToggleSelected,
+  onUpdate,
+  onDelete,
+  onExport
+}) => {
+  const [isRenaming, setIsRenaming] = useState(false);
+  const [isOrganizing, setIsOrganizing] = useState(false);
+  const [isExporting, setIsExporting] = useState(false);
+  const [title, setTitle] = useState(session.title);
+  const [folder, setFolder] = useState(session.folder || '');
+  const [tags, setTags] = useState((session.tags || []).join(', '));
+
+  const startRename = () => {
+    setTitle(session.title);
+    setIsRenaming(true);
+  };
+
+  const commitRename = () => {
+    const next = title.trim();
+    if (next && next !== session.title) onUpdate({ title: next });
+    setIsRenaming(false);
+  };
+
+  const startOrganize = () => {
+    setFolder(session.folder || '');
+    setTags((session.tags || []).join(', '));
+    setIsOrganizing(true);
+  };
+
+  const commitOrganize = () => {
+    const nextTags = parseTags(tags);
+    onUpdate({ folder: folder.trim() || undefined, tags: nextTags.length ? nextTags : undefined });
+    setIsOrganizing(false);
+  };
+
+  const iconButton = 'opacity-0 group-hover:opacity-100 p-1.5 rounded-lg transition-all';
+
+  return (
+    <div
+      className={`group px-5 py-4 rounded-3xl cursor-pointer transition-all border ${
+        isActive
+          ? 'bg-blue-600/10 text-blue-400 border-blue-500/20 shadow-inner'
+          : 'text-zinc-500 hover:bg-white/5 hover:text-white border-transparent'
+      } ${session.archived ? 'opacity-60' : ''}`}
+      onClick={() => (isSelecting ? onToggleSelected() : !isRenaming && onSelect())}
+    >
+      <div className="flex items-center gap-2">
+        {isSelecting && (
+          <input type="checkbox" checked={isSelected} readOnly className="accent-blue-600 flex-shrink-0 pointer-events-none" />
+        )}
+        {session.pinned && !isRenaming && <PinIcon className="w-3 h-3 text-blue-500 flex-shrink-0" />}
+        {isRenaming ? (
+          <input
+            value={title}
+            onChange={(e) => setTitle(e.target.value)}
+            onClick={(e) => e.stopPropagation()}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') commitRename();
+              if (e.key === 'Escape') setIsRenaming(false);
+            }}
+            onBlur={commitRename}
+            autoFocus
+            className="flex-1 min-w-0 bg-black/40 border border-blue-500/30 rounded-lg px-2 py-1 text-[13px] font-bold text-white outline-none"
+          />
+        ) : (
+          <div className="flex-1 truncate text-[13px] font-bold tracking-tight" onDoubleClick={(e) => { e.stopPropagation(); startRename(); }}>
+            {session.title}
+          </div>
+        )}
+        {isExporting ? (
+          <ExportPicker onPick={(format) => { onExport(format); setIsExporting(false); }} />
+        ) : !isSelecting && !isRenaming && (
+          <div className="flex items-center" onClick={(e) => e.stopPropagation()}>
+            <button onClick={startRename} className={`${iconButton} hover:bg-white/10 hover:text-white`} title="Rename">
+              <PencilIcon className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => onUpdate({ pinned: !session.pinned || undefined })} className={`${iconButton} hover:bg-white/10 hover:text-white ${session.pinned ? 'text-blue-400' : ''}`} title={session.pinned ? 'Unpin' : 'Pin to top'}>
+              <PinIcon className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => (isOrganizing ? setIsOrganizing(false) : startOrganize())} className={`${iconButton} hover:bg-white/10 hover:text-white`} title="Folder & tags">
+              <TagIcon className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => onUpdate({ archived: !session.archived || undefined })} className={`${iconButton} hover:bg-white/10 hover:text-white`} title={session.archived ? 'Unarchive' : 'Archive'}>
+              <ArchiveIcon className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={() => setIsExporting(true)} className={`${iconButton} hover:bg-white/10 hover:text-white`} title="Export session">
+              <DownloadIcon className="w-3.5 h-3.5" />
+            </button>
+            <button onClick={onDelete} className={`${iconButton} hover:bg-red-500/20 hover:text-red-500`} title="Delete">
+              <TrashIcon className="w-3.5 h-3.5" />
+            </button>
+          </div>
+        )}
+      </div>
+
+      {!isOrganizing && session.tags && session.tags.length > 0 && (
+        <div className="flex flex-wrap gap-1 mt-2">
+          {session.tags.map(tag => (
+            <span key={tag} className="px-2 py-0.5 rounded-md bg-white/5 text-[9px] font-black uppercase tracking-widest text-zinc-500">#{tag}</span>
+          ))}
+        </div>
+      )}
+
+      {isOrganizing && (
+        <div className="mt-3 space-y-2" onClick={(e) => e.stopPropagation()}>
+          <input
+            value={folder}
+            onChange={(e) => setFolder(e.target.value)}
+            list={`folders-${session.id}`}
+            placeholder="Folder"
+            className="w-full px-3 py-2 bg-black/40 rounded-xl border border-white/5 text-[11px] text-zinc-300 outline-none focus:border-blue-500/30"
+          />
+          <datalist id={`folders-${session.id}`}>
+            {folders.map(f => <option key={f} value={f} />)}
+          </datalist>
+          <input
+            value={tags}
+            onChange={(e) => setTags(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter') commitOrganize(); }}
+            placeholder="Tags, comma separated"
+            className="w-full px-3 py-2 bg-black/40 rounded-xl border border-white/5 text-[11px] text-zinc-300 outline-none focus:border-blue-500/30"
+          />
+          <div className="flex justify-end gap-2">
+            <button onClick={() => setIsOrganizing(false)} className="px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest text-zinc-500 hover:text-white">Cancel</button>
+            <button onClick={commitOrganize} className="px-3 py-1.5 rounded-lg bg-blue-600 hover:bg-blue-500 text-white text-[9px] font-black uppercase tracking-widest">Save</button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default SessionItem;
@@ -0,0 +1,194 @@
+
+import React, { useEffect, useState } from 'react';
+import { Persona } from '../types';
+import { XIcon, GlobeIcon, BrainIcon, CheckIcon } from './Icons';
+import { TEXT_MODEL, PRO_MODEL, DEFAULT_THINKING_BUDGET, MAX_THINKING_BUDGET } from '../services/geminiService';
+import { SessionSettings } from '../services/settingsService';
+import { CONTEXT_STRATEGY_OPTIONS, MIN_CONTEXT_BUDGET, defaultContextBudget } from '../services/contextService';
+import { feedback } from '../services/feedbackService';
+
+interface SessionSettingsPanelProps {
+  settings: SessionSettings;
+  persona: Persona; // before overrides, so its values can be shown as the defaults
+  onChange: (patch: Partial<SessionSettings>) => void;
+  onSaveAsDefaults: () => void;
+  onResetToDefaults: () => void;
+  contextModel: string;
+  contextBudget: number;
+  onChangeContextBudget: (budget: number | undefined) => void; // per model, shared by every session
+  onClose: () => void;
+}
+
+const labelClass = 'text-[9px] font-black uppercase tracking-widest text-zinc-500';
+const fieldClass = 'w-full px-4 py-3 bg-white/5 rounded-2xl border border-white/5 text-sm text-white outline-none focus:border-blue-500/30';
+
+const SessionSettingsPanel: React.FC<SessionSettingsPanelProps> = ({
+  settings,
+  persona,
+  onChange,
+  onSaveAsDefaults,
+  onResetToDefaults,
+  contextModel,
+  contextBudget,
+  onChangeContextBudget,
+  onClose
+}) => {
+  const [savedDefaults, setSavedDefaults] = useState(false);
+  const temperature = settings.temperature ?? persona.temperature;
+  const thinkingBudget = settings.thinkingBudget ?? DEFAULT_THINKING_BUDGET;
+  const [budgetDraft, setBudgetDraft] = useState(String(contextBudget));
+
+  useEffect(() => setBudgetDraft(String(contextBudget)), [contextBudget]);
+
+  const commitBudget = () => {
+    const budget = Math.round(Number(budgetDraft));
+    if (budget >= MIN_CONTEXT_BUDGET) onChangeContextBudget(budget);
+    else setBudgetDraft(String(contextBudget));
+  };
+
+  const toggleClass = (active: boolean, color: 'blue' | 'purple') => `flex-1 flex items-center justify-center gap-3 px-5 py-3 rounded-2xl border transition-all text-[10px] font-black uppercase tracking-widest ${
+    active
+      ? color === 'blue' ? 'bg-blue-600/20 border-blue-500/50 text-blue-400' : 'bg-purple-600/20 border-purple-500/50 text-purple-400'
+      : 'bg-white/5 border-white/5 text-zinc-600 hover:text-white'
+  }`;
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-black/70 backdrop-blur-xl flex items-center justify-center p-6 animate-in fade-in duration-300" onClick={onClose}>
+      <div className="w-full max-w-xl max-h-[85vh] overflow-y-auto bg-zinc-950/90 border border-white/10 rounded-[2.5rem] p-10 shadow-2xl space-y-6" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h3 className="text-[11px] font-black uppercase tracking-[0.3em] text-zinc-400">Session Settings</h3>
+          <button onClick={onClose} className="p-2 rounded-xl hover:bg-white/5 text-zinc-500 hover:text-white transition-all"><XIcon className="w-5 h-5" /></button>
+        </div>
+
+        <div className="flex gap-3">
+          <button onClick={() => onChange({ groundingEnabled: !settings.groundingEnabled })} className={toggleClass(!!settings.groundingEnabled, 'blue')}>
+            <GlobeIcon className="w-4 h-4" /> Grounding
+          </button>
+          <button onClick={() => onChange({ thinkingEnabled: !settings.thinkingEnabled })} className={toggleClass(!!settings.thinkingEnabled, 'purple')}>
+            <BrainIcon className="w-4 h-4" /> Thinking
+          </button>
+        </div>
+
+        <div className="space-y-2">
+          <span className={labelClass}>Model</span>
+          <select
+            value={settings.model || ''}
+            onChange={(e) => onChange({ model: e.target.value || undefined })}
+            className={`${fieldClass} text-[10px] font-black uppercase tracking-widest`}
+          >
+            <option value="">{settings.thinkingEnabled ? `Default (${PRO_MODEL} while thinking)` : `Persona default (${persona.model || TEXT_MODEL})`}</option>
+            <option value={TEXT_MODEL}>{TEXT_MODEL}</option>
+            <option value={PRO_MODEL}>{PRO_MODEL}</option>
+          </select>
+          <p className="text-[10px] text-zinc-600">Applies to Gemini; other providers use their configured model.</p>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className={labelClass}>Temperature {temperature.toFixed(1)}</span>
+            {settings.temperature !== undefined && (
+              <button onClick={() => onChange({ temperature: undefined })} className={`${labelClass} hover:text-white`}>Use persona ({persona.temperature.toFixed(1)})</button>
+            )}
+          </div>
+          <input
+            type="range" min={0} max={2} step={0.1}
+            value={temperature}
+            onChange={(e) => onChange({ temperature: Number(e.target.value) })}
+            className="w-full accent-blue-600"
+          />
+        </div>
+
+        <div className={`space-y-2 transition-opacity ${settings.thinkingEnabled ? '' : 'opacity-40'}`}>
+          <span className={labelClass}>Thinking budget {thinkingBudget.toLocaleString()} tokens</span>
+          <input
+            type="range" min={1024} max={MAX_THINKING_BUDGET} step={1024}
+            value={thinkingBudget}
+            disabled={!settings.thinkingEnabled}
+            onChange={(e) => onChange({ thinkingBudget: Number(e.target.value) })}
+            className="w-full accent-purple-600"
+          />
+        </div>
+
+        <div className="space-y-2">
+          <span className={labelClass}>System prompt override</span>
+          <textarea
+            value={settings.systemInstruction || ''}
+            onChange={(e) => onChange({ systemInstruction: e.target.value || undefined })}
+            placeholder={`Using ${persona.name} persona instruction`}
+            rows={4}
+            className={`${fieldClass} resize-none`}
+          />
+        </div>
+
+        <div className="space-y-2">
+          <span className={labelClass}>When history outgrows the context</span>
+          <select
+            value={settings.contextStrategy}
+            onChange={(e) => onChange({ contextStrategy: e.target.value as SessionSettings['contextStrategy'] })}
+            className={`${fieldClass} text-[10px] font-black uppercase tracking-widest`}
+          >
+            {CONTEXT_STRATEGY_OPTIONS.map(option => <option key={option.id} value={option.id}>{option.label}</option>)}
+          </select>
+          <p className="text-[10px] text-zinc-600">{CONTEXT_STRATEGY_OPTIONS.find(o => o.id === settings.contextStrategy)?.description}</p>
+        </div>
+
+        <div className="space-y-2">
+          <div className="flex items-center justify-between">
+            <span className={labelClass}>Context budget for {contextModel}</span>
+            {contextBudget !== defaultContextBudget(contextModel) && (
+              <button onClick={() => onChangeContextBudget(undefined)} className={`${labelClass} hover:text-white`}>Default ({defaultContextBudget(contextModel).toLocaleString()})</button>
+            )}
+          </div>
+          <input
+            type="number" min={MIN_CONTEXT_BUDGET} step={1024}
+            value={budgetDraft}
+            onChange={(e) => setBudgetDraft(e.target.value)}
+            onBlur={commitBudget}
+            onKeyDown={(e) => { if (e.key === 'Enter') commitBudget(); }}
+            className={fieldClass}
+          />
+          <p className="text-[10px] text-zinc-600">Tokens of history, system prompt and attachments sent per turn. Shared by every session using this model.</p>
+        </div>
+
+        <label className="flex items-center justify-between gap-4 cursor-pointer">
+          <span className="flex flex-col">
+            <span className={labelClass}>Follow-up suggestions</span>
+            <span className="text-[10px] text-zinc-600">One extra request after each reply</span>
+          </span>
+          <input
+            type="checkbox"
+            checked={!!settings.suggestionsEnabled}
+            onChange={(e) => onChange({ suggestionsEnabled: e.target.checked })}
+            className="w-4 h-4 accent-blue-600"
+          />
+        </label>
+
+        <label className="flex items-center justify-between gap-4 cursor-pointer">
+          <span className="flex flex-col">
+            <span className={labelClass}>Sentiment & logic check</span>
+            <span className="text-[10px] text-zinc-600">Two extra requests after each reply</span>
+          </span>
+          <input
+            type="checkbox"
+            checked={!!settings.analysisEnabled}
+            onChange={(e) => onChange({ analysisEnabled: e.target.checked })}
+            className="w-4 h-4 accent-blue-600"
+          />
+        </label>
+
+        <div className="flex items-center justify-between gap-3 pt-2">
+          <button onClick={onResetToDefaults} className="px-5 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest text-zinc-500 hover:text-white">Reset to defaults</button>
+          <button
+            onClick={() => { onSaveAsDefaults(); setSavedDefaults(true); feedback.vibrate(10); }}
+            className="flex items-center gap-2 px-5 py-2.5 rounded-xl bg-blue-600 hover:bg-blue-500 text-white text-[10px] font-black uppercase tracking-widest shadow-xl shadow-blue-900/40"
+          >
+            {savedDefaults && <CheckIcon className="w-3.5 h-3.5" />}
+            Use for new sessions
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default SessionSettingsPanel;
@@ -1,14 +1,26 @@
 
-import React from 'react';
-import { ChatSession } from '../types';
-import { PlusIcon, TrashIcon, BotIcon, CheckIcon, GlobeIcon } from './Icons';
+import React, { useMemo, useRef, useState } from 'react';
+import { ChatSession, ProviderId } from '../types';
+import { PlusIcon, TrashIcon, BotIcon, CheckIcon, GlobeIcon, DownloadIcon, UploadIcon, SearchIcon, XIcon, ArchiveIcon } from './Icons';
+import SessionItem, { SessionPatch } from './SessionItem';
+import ExportPicker from './ExportPicker';
+import { getProviderSettings, updateProviderSettings, PROVIDER_OPTIONS } from '../services/chatService';
+import { MOCK_LIVE_SCENARIOS, MockLiveScenarioId } from '../services/mockLiveService';
+import { ExportFormat } from '../services/exportService';
+import { searchSessions, SearchField } from '../services/searchService';
+
+const FIELD_LABELS: Record<SearchField, string> = { text: 'Message', attachment: 'Attachment', source: 'Source' };
 
 interface SidebarProps {
   sessions: ChatSession[];
   currentSessionId: string | null;
   onNewChat: () => void;
   onSelectChat: (id: string) => void;
-  onDeleteChat: (id: string) => void;
+  onDeleteChats: (ids: string[]) => void;
+  onUpdateSessions: (ids: string[], patch: SessionPatch) => void;
+  onExport: (format: ExportFormat, sessionId?: string) => void;
+  onImport: (file: File) => void;
+  onOpenSearchResult: (sessionId: string, messageId: string) => void;
 }
 
 const Sidebar: React.FC<SidebarProps> = ({ 
@@ -16,8 +28,63 @@ const Sidebar: React.FC<SidebarProps> = ({
   currentSessionId, 
   onNewChat, 
   onSelectChat, 
-  onDeleteChat 
+  onDeleteChats,
+  onUpdateSessions,
+  onExport,
+  onImport,
+  onOpenSearchResult
 }) => {
+  const [providerSettings, setProviderSettings] = useState(getProviderSettings);
+  const [isExportingAll, setIsExportingAll] = useState(false);
+  const importInputRef = useRef<HTMLInputElement>(null);
+  const [query, setQuery] = useState('');
+  const results = useMemo(() => searchSessions(sessions, query), [sessions, query]);
+  const [activeTag, setActiveTag] = useState<string | null>(null);
+  const [showArchived, setShowArchived] = useState(false);
+  const [isSelecting, setIsSelecting] = useState(false);
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+
+  const allTags = useMemo(() => [...new Set(sessions.flatMap(s => s.tags || []))].sort(), [sessions]);
+  const allFolders = useMemo(() => [...new Set(sessions.map(s => s.folder).filter((f): f is string => !!f))].sort(), [sessions]);
+  const archivedCount = sessions.filter(s => s.archived).length;
+  const tagFilter = activeTag && allTags.includes(activeTag) ? activeTag : null;
+
+  const visible = useMemo(() => sessions
+    .filter(s => !!s.archived === (showArchived && archivedCount > 0))
+    .filter(s => !tagFilter || s.tags?.includes(tagFilter))
+    .sort((a, b) => b.updatedAt - a.updatedAt), [sessions, showArchived, archivedCount, tagFilter]);
+
+  // Pinned sessions first, then one group per folder; unfiled sessions get a header only when folders exist.
+  const groups = useMemo(() => {
+    const pinned = visible.filter(s => s.pinned);
+    const rest = visible.filter(s => !s.pinned);
+    const folders = [...new Set(rest.map(s => s.folder).filter((f): f is string => !!f))].sort();
+    const unfiled = rest.filter(s => !s.folder);
+    return [
+      ...(pinned.length ? [{ label: 'Pinned', sessions: pinned }] : []),
+      ...folders.map(folder => ({ label: folder, sessions: rest.filter(s => s.folder === folder) })),
+      ...(unfiled.length ? [{ label: pinned.length || folders.length ? 'Unfiled' : null, sessions: unfiled }] : []),
+    ];
+  }, [visible]);
+
+  const toggleSelected = (id: string) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id); else next.add(id);
+      return next;
+    });
+  };
+
+  const stopSelecting = () => {
+    setIsSelecting(false);
+    setSelected(new Set());
+  };
+
+  const applyProviderSettings = (next: typeof providerSettings) => {
+    updateProviderSettings(next);
+    setProviderSettings(next);
+  };
+
   return (
     <div className="flex flex-col h-full bg-zinc-950/80 backdrop-blur-3xl border-r border-white/5 w-80">
       <div className="p-8">
@@ -30,37 +97,149 @@ const Sidebar: React.FC<SidebarProps> = ({
         </button>
       </div>
 
-      <div className="flex-1 overflow-y-auto px-4 space-y-2 scrollbar-hide">
-        <h4 className="px-4 mb-4 text-[10px] font-black text-zinc-600 uppercase tracking-[0.3em]">Temporal Logs</h4>
-        {sessions.length === 0 ? (
-          <div className="flex flex-col items-center justify-center h-48 text-zinc-700 opacity-50">
-            <BotIcon className="w-10 h-10 mb-4 animate-pulse" />
-            <p className="text-[10px] font-black uppercase tracking-widest">Interface Ready</p>
-          </div>
-        ) : (
-          sessions.sort((a, b) => b.updatedAt - a.updatedAt).map((session) => (
-            <div 
-              key={session.id}
-              className={`group flex items-center gap-3 px-5 py-4 rounded-3xl cursor-pointer transition-all border ${
-                currentSessionId === session.id 
-                  ? 'bg-blue-600/10 text-blue-400 border-blue-500/20 shadow-inner' 
-                  : 'text-zinc-500 hover:bg-white/5 hover:text-white border-transparent'
-              }`}
-              onClick={() => onSelectChat(session.id)}
+      <div className="px-8 pb-6">
+        <div className="flex items-center gap-3 px-4 py-3 bg-black/40 rounded-2xl border border-white/5 focus-within:border-blue-500/30 transition-all">
+          <SearchIcon className="w-3.5 h-3.5 text-zinc-600 flex-shrink-0" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Escape') setQuery(''); }}
+            placeholder="Search all sessions"
+            className="flex-1 min-w-0 bg-transparent text-[12px] text-zinc-200 placeholder-zinc-600 outline-none"
+          />
+          {query && (
+            <button onClick={() => setQuery('')} className="text-zinc-600 hover:text-white transition-all"><XIcon className="w-3.5 h-3.5" /></button>
+          )}
+        </div>
+      </div>
+
+      {query.trim() ? (
+        <div className="flex-1 overflow-y-auto px-4 space-y-2 scrollbar-hide">
+          <h4 className="px-4 mb-4 text-[10px] font-black text-zinc-600 uppercase tracking-[0.3em]">
+            {results.length === 0 ? 'No Matches' : `${results.length} Match${results.length === 1 ? '' : 'es'}`}
+          </h4>
+          {results.map(result => (
+            <button
+              key={result.messageId}
+              onClick={() => onOpenSearchResult(result.sessionId, result.messageId)}
+              className="w-full text-left px-5 py-4 rounded-3xl border border-transparent hover:bg-white/5 hover:border-white/5 transition-all"
             >
-              <div className="flex-1 truncate text-[13px] font-bold tracking-tight">
-                {session.title}
+              <div className="flex items-center justify-between gap-3 mb-1.5">
+                <span className="truncate text-[11px] font-black text-zinc-300 tracking-tight">{result.sessionTitle}</span>
+                <span className="flex-shrink-0 text-[8px] font-black uppercase tracking-widest text-zinc-600">{FIELD_LABELS[result.field]}</span>
               </div>
-              <button 
-                onClick={(e) => { e.stopPropagation(); onDeleteChat(session.id); }}
-                className="opacity-0 group-hover:opacity-100 p-2 hover:bg-red-500/20 hover:text-red-500 rounded-xl transition-all"
-              >
-                <TrashIcon className="w-3.5 h-3.5" />
+              <p className="text-[12px] leading-relaxed text-zinc-500 line-clamp-3">
+                {result.snippet.map((part, i) => part.match
+                  ? <mark key={i} className="bg-blue-500/20 text-blue-300 rounded px-0.5">{part.text}</mark>
+                  : <React.Fragment key={i}>{part.text}</React.Fragment>)}
+              </p>
+            </button>
+          ))}
+        </div>
+      ) : (
+        <div className="flex-1 overflow-y-auto px-4 space-y-2 scrollbar-hide">
+          <div className="flex items-center justify-between px-4 mb-4">
+            <h4 className="text-[10px] font-black text-zinc-600 uppercase tracking-[0.3em]">Temporal Logs</h4>
+            <div className="flex items-center gap-1">
+              {isExportingAll ? (
+                <ExportPicker onPick={(format) => { onExport(format); setIsExportingAll(false); }} />
+              ) : (
+                <>
+                  <button onClick={() => importInputRef.current?.click()} className="p-1.5 rounded-lg text-zinc-600 hover:text-white hover:bg-white/5 transition-all" title="Import sessions (JSON)">
+                    <UploadIcon className="w-3.5 h-3.5" />
+                  </button>
+                  {sessions.length > 0 && (
+                    <>
+                      <button onClick={() => setIsExportingAll(true)} className="p-1.5 rounded-lg text-zinc-600 hover:text-white hover:bg-white/5 transition-all" title="Export all sessions">
+                        <DownloadIcon className="w-3.5 h-3.5" />
+                      </button>
+                      <button onClick={() => (isSelecting ? stopSelecting() : setIsSelecting(true))} className={`p-1.5 rounded-lg transition-all ${isSelecting ? 'text-blue-400 bg-blue-500/10' : 'text-zinc-600 hover:text-white hover:bg-white/5'}`} title="Select sessions">
+                        <CheckIcon className="w-3.5 h-3.5" />
+                      </button>
+                    </>
+                  )}
+                </>
+              )}
+              <input
+                ref={importInputRef}
+                type="file"
+                accept="application/json,.json"
+                className="hidden"
+                onChange={(e) => {
+                  const file = e.target.files?.[0];
+                  if (file) onImport(file);
+                  e.target.value = '';
+                }}
+              />
+            </div>
+          </div>
+
+          {(allTags.length > 0 || archivedCount > 0) && (
+            <div className="flex flex-wrap gap-1.5 px-4 mb-4">
+              {allTags.map(tag => (
+                <button key={tag} onClick={() => setActiveTag(activeTag === tag ? null : tag)} className={`px-2.5 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${activeTag === tag ? 'bg-blue-600 text-white' : 'bg-white/5 text-zinc-500 hover:text-white'}`}>
+                  #{tag}
+                </button>
+              ))}
+              {archivedCount > 0 && (
+                <button onClick={() => setShowArchived(!showArchived)} className={`flex items-center gap-1.5 px-2.5 py-1 rounded-lg text-[9px] font-black uppercase tracking-widest transition-all ${showArchived ? 'bg-blue-600 text-white' : 'bg-white/5 text-zinc-500 hover:text-white'}`}>
+                  <ArchiveIcon className="w-3 h-3" />
+                  Archived · {archivedCount}
+                </button>
+              )}
+            </div>
+          )}
+
+          {isSelecting && (
+            <div className="flex items-center justify-between gap-2 mx-2 mb-4 px-4 py-2.5 rounded-2xl bg-blue-600/10 border border-blue-500/20">
+              <button onClick={() => setSelected(selected.size === visible.length ? new Set() : new Set(visible.map(s => s.id)))} className="text-[9px] font-black uppercase tracking-widest text-blue-400 hover:text-white">
+                {selected.size} selected
               </button>
+              <div className="flex items-center gap-1">
+                <button disabled={selected.size === 0} onClick={() => { onUpdateSessions([...selected], { archived: !showArchived || undefined }); stopSelecting(); }} className="p-1.5 rounded-lg text-zinc-400 hover:text-white hover:bg-white/10 disabled:opacity-30 transition-all" title={showArchived ? 'Unarchive selected' : 'Archive selected'}>
+                  <ArchiveIcon className="w-3.5 h-3.5" />
+                </button>
+                <button disabled={selected.size === 0} onClick={() => { onDeleteChats([...selected]); stopSelecting(); }} className="p-1.5 rounded-lg text-zinc-400 hover:text-red-500 hover:bg-red-500/20 disabled:opacity-30 transition-all" title="Delete selected">
+                  <TrashIcon className="w-3.5 h-3.5" />
+                </button>
+                <button onClick={stopSelecting} className="p-1.5 rounded-lg text-zinc-400 hover:text-white hover:bg-white/10 transition-all" title="Cancel">
+                  <XIcon className="w-3.5 h-3.5" />
+                </button>
+              </div>
             </div>
-          ))
-        )}
-      </div>
+          )}
+
+          {visible.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-48 text-zinc-700 opacity-50">
+              <BotIcon className="w-10 h-10 mb-4 animate-pulse" />
+              <p className="text-[10px] font-black uppercase tracking-widest">{sessions.length === 0 ? 'Interface Ready' : 'No Sessions'}</p>
+            </div>
+          ) : (
+            groups.map(group => (
+              <div key={group.label ?? ''} className="space-y-2">
+                {group.label && (
+                  <h5 className="px-4 pt-2 text-[9px] font-black text-zinc-700 uppercase tracking-[0.3em] truncate">{group.label}</h5>
+                )}
+                {group.sessions.map(session => (
+                  <SessionItem
+                    key={session.id}
+                    session={session}
+                    isActive={currentSessionId === session.id}
+                    isSelecting={isSelecting}
+                    isSelected={selected.has(session.id)}
+                    folders={allFolders}
+                    onSelect={() => onSelectChat(session.id)}
+                    onToggleSelected={() => toggleSelected(session.id)}
+                    onUpdate={(patch) => onUpdateSessions([session.id], patch)}
+                    onDelete={() => onDeleteChats([session.id])}
+                    onExport={(format) => onExport(format, session.id)}
+                  />
+                ))}
+              </div>
+            ))
+          )}
+        </div>
+      )}
 
       <div className="p-8 space-y-4">
         <div className="p-5 rounded-[2rem] bg-zinc-900/50 border border-white/5 shadow-2xl">
@@ -83,6 +262,40 @@ const Sidebar: React.FC<SidebarProps> = ({
              </div>
              <CheckIcon className="w-3 h-3 text-green-500" />
           </div>
+          <div className="mt-3 space-y-2">
+            <select
+              value={providerSettings.activeId}
+              onChange={(e) => applyProviderSettings({ ...providerSettings, activeId: e.target.value as ProviderId })}
+              className="w-full px-3 py-2 bg-black/40 rounded-xl border border-white/5 text-[9px] font-black text-zinc-400 uppercase tracking-widest outline-none"
+            >
+              {PROVIDER_OPTIONS.map(p => <option key={p.id} value={p.id}>{p.label}</option>)}
+            </select>
+            {providerSettings.activeId === 'openai' && (
+              <>
+                <input
+                  value={providerSettings.openai.baseUrl}
+                  onChange={(e) => applyProviderSettings({ ...providerSettings, openai: { ...providerSettings.openai, baseUrl: e.target.value } })}
+                  placeholder="http://localhost:11434/v1"
+                  className="w-full px-3 py-2 bg-black/40 rounded-xl border border-white/5 text-[10px] text-zinc-300 outline-none"
+                />
+                <input
+                  value={providerSettings.openai.chatModel}
+                  onChange={(e) => applyProviderSettings({ ...providerSettings, openai: { ...providerSettings.openai, chatModel: e.target.value } })}
+                  placeholder="Model"
+                  className="w-full px-3 py-2 bg-black/40 rounded-xl border border-white/5 text-[10px] text-zinc-300 outline-none"
+                />
+              </>
+            )}
+            {providerSettings.activeId === 'mock' && (
+              <select
+                value={providerSettings.mockLive}
+                onChange={(e) => applyProviderSettings({ ...providerSettings, mockLive: e.target.value as MockLiveScenarioId })}
+                className="w-full px-3 py-2 bg-black/40 rounded-xl border border-white/5 text-[9px] font-black text-zinc-400 uppercase tracking-widest outline-none"
+              >
+                {MOCK_LIVE_SCENARIOS.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+              </select>
+            )}
+          </div>
         </div>
       </div>
     </div>
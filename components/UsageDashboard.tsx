@@ -0,0 +1,216 @@
+import React, { useMemo, useState } from 'react';
+import { ChatSession } from '../types';
+import { XIcon, TrashIcon } from './Icons';
+import { UsageRecord, UsageTotals, totalUsage, groupUsage, recordsSince, dayKey } from '../services/usageService';
+import { PriceTable, ModelPrice, BudgetLimits, estimateCost, formatCost } from '../services/pricingService';
+import { formatTokens } from '../services/contextService';
+
+interface UsageDashboardProps {
+  records: UsageRecord[];
+  sessions: ChatSession[];
+  currentSessionId: string | null;
+  prices: PriceTable;
+  limits: BudgetLimits;
+  onChangePrices: (prices: PriceTable) => void;
+  onChangeLimits: (limits: BudgetLimits) => void;
+  onClear: () => void;
+  onClose: () => void;
+}
+
+const DAYS_SHOWN = 14;
+const SESSIONS_SHOWN = 10;
+
+const labelClass = 'text-[9px] font-black uppercase tracking-widest text-zinc-500';
+const cellInputClass = 'w-20 px-2 py-1 bg-white/5 rounded-lg border border-white/5 text-[11px] text-white text-right tabular-nums outline-none focus:border-blue-500/30';
+
+const PRICE_FIELDS: { key: keyof ModelPrice; label: string }[] = [
+  { key: 'inputPerMillion', label: 'In / 1M' },
+  { key: 'outputPerMillion', label: 'Out / 1M' },
+  { key: 'perImage', label: 'Image' },
+  { key: 'perVideo', label: 'Video' },
+];
+
+const parseAmount = (value: string): number | undefined => {
+  const amount = Number(value);
+  return value.trim() === '' || !Number.isFinite(amount) || amount < 0 ? undefined : amount;
+};
+
+const media = (totals: UsageTotals) =>
+  [totals.images && `${totals.images} img`, totals.videos && `${totals.videos} vid`, totals.speechCalls && `${totals.speechCalls} tts`].filter(Boolean).join(' · ') || '—';
+
+const UsageDashboard: React.FC<UsageDashboardProps> = ({
+  records,
+  sessions,
+  currentSessionId,
+  prices,
+  limits,
+  onChangePrices,
+  onChangeLimits,
+  onClear,
+  onClose
+}) => {
+  const [confirmingClear, setConfirmingClear] = useState(false);
+  const costOf = (r: UsageRecord) => estimateCost(r, prices);
+
+  const { today, session, month, days, bySession } = useMemo(() => {
+    const recent = recordsSince(records, DAYS_SHOWN);
+    const byDay = groupUsage(recent, r => dayKey(r.timestamp), costOf);
+    const days = Array.from({ length: DAYS_SHOWN }, (_, i) => {
+      const key = dayKey(Date.now() - i * 24 * 60 * 60 * 1000);
+      return { key, totals: byDay.get(key) };
+    });
+    const bySession = [...groupUsage(records.filter(r => r.sessionId), r => r.sessionId!, costOf)]
+      .sort((a, b) => b[1].cost - a[1].cost || b[1].calls - a[1].calls)
+      .slice(0, SESSIONS_SHOWN);
+    return {
+      today: totalUsage(recordsSince(records, 1), costOf),
+      session: totalUsage(records.filter(r => currentSessionId && r.sessionId === currentSessionId), costOf),
+      month: totalUsage(recordsSince(records, 30), costOf),
+      days,
+      bySession,
+    };
+  }, [records, prices, currentSessionId]);
+
+  const maxDayCost = Math.max(...days.map(d => d.totals?.cost || 0), 0.0001);
+  const models = [...new Set([...Object.keys(prices), ...records.map(r => r.model)])];
+
+  const updatePrice = (model: string, key: keyof ModelPrice, value: string) => {
+    const current = prices[model] || { inputPerMillion: 0, outputPerMillion: 0 };
+    const amount = parseAmount(value);
+    const required = key === 'inputPerMillion' || key === 'outputPerMillion';
+    onChangePrices({ ...prices, [model]: { ...current, [key]: amount ?? (required ? 0 : undefined) } });
+  };
+
+  const summaryCard = (title: string, totals: UsageTotals, limit?: number) => (
+    <div className="flex-1 px-5 py-4 rounded-3xl bg-white/[0.03] border border-white/5">
+      <div className={labelClass}>{title}</div>
+      <div className={`text-2xl font-black tracking-tight mt-1 tabular-nums ${limit !== undefined && totals.cost >= limit ? 'text-amber-400' : 'text-white'}`}>{formatCost(totals.cost)}</div>
+      <div className="text-[10px] text-zinc-600 mt-1 tabular-nums">
+        {totals.calls} calls · {formatTokens(totals.inputTokens + totals.outputTokens)} tok{limit !== undefined && ` · limit ${formatCost(limit)}`}
+      </div>
+    </div>
+  );
+
+  return (
+    <div className="fixed inset-0 z-[90] bg-black/70 backdrop-blur-xl flex items-center justify-center p-6 animate-in fade-in duration-300" onClick={onClose}>
+      <div className="w-full max-w-3xl max-h-[85vh] overflow-y-auto bg-zinc-950/90 border border-white/10 rounded-[2.5rem] p-10 shadow-2xl space-y-8" onClick={(e) => e.stopPropagation()}>
+        <div className="flex items-center justify-between">
+          <h3 className="text-[11px] font-black uppercase tracking-[0.3em] text-zinc-400">Usage & Cost</h3>
+          <button onClick={onClose} className="p-2 rounded-xl hover:bg-white/5 text-zinc-500 hover:text-white transition-all"><XIcon className="w-5 h-5" /></button>
+        </div>
+
+        <div className="flex flex-col sm:flex-row gap-3">
+          {summaryCard('Today', today, limits.daily)}
+          {summaryCard('This session', session, limits.perSession)}
+          {summaryCard('Last 30 days', month)}
+        </div>
+        <p className="text-[10px] text-zinc-600 -mt-5">Estimates from Gemini's reported token counts and the price table below. Other providers are not metered.</p>
+
+        <div className="space-y-2">
+          <span className={labelClass}>Per day</span>
+          <table className="w-full text-[11px] text-zinc-400 tabular-nums">
+            <tbody>
+              {days.map(({ key, totals }) => (
+                <tr key={key} className="border-t border-white/5">
+                  <td className="py-1.5 pr-3 text-zinc-500 whitespace-nowrap">{key}</td>
+                  <td className="py-1.5 pr-3 w-full">
+                    <div className="h-1.5 rounded-full bg-blue-500/70" style={{ width: `${((totals?.cost || 0) / maxDayCost) * 100}%` }} />
+                  </td>
+                  <td className="py-1.5 pr-3 text-right whitespace-nowrap">{totals ? `${totals.calls} calls` : '—'}</td>
+                  <td className="py-1.5 pr-3 text-right whitespace-nowrap">{totals ? `${formatTokens(totals.inputTokens)} in · ${formatTokens(totals.outputTokens)} out` : ''}</td>
+                  <td className="py-1.5 pr-3 text-right whitespace-nowrap">{totals ? media(totals) : ''}</td>
+                  <td className="py-1.5 text-right whitespace-nowrap text-white">{totals ? formatCost(totals.cost) : ''}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="space-y-2">
+          <span className={labelClass}>Top sessions</span>
+          {bySession.length === 0 ? (
+            <p className="text-[10px] font-black uppercase tracking-widest text-zinc-700 py-4 text-center">No usage recorded yet</p>
+          ) : (
+            <table className="w-full text-[11px] text-zinc-400 tabular-nums">
+              <tbody>
+                {bySession.map(([id, totals]) => (
+                  <tr key={id} className={`border-t border-white/5 ${id === currentSessionId ? 'text-blue-400' : ''}`}>
+                    <td className="py-1.5 pr-3 w-full truncate max-w-0">{sessions.find(s => s.id === id)?.title || 'Deleted session'}</td>
+                    <td className="py-1.5 pr-3 text-right whitespace-nowrap">{totals.calls} calls</td>
+                    <td className="py-1.5 pr-3 text-right whitespace-nowrap">{formatTokens(totals.inputTokens + totals.outputTokens)} tok</td>
+                    <td className="py-1.5 pr-3 text-right whitespace-nowrap">{Math.round(totals.latencyMs / totals.calls)} ms avg</td>
+                    <td className="py-1.5 text-right whitespace-nowrap text-white">{formatCost(totals.cost)}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          )}
+        </div>
+
+        <div className="space-y-3">
+          <span className={labelClass}>Soft limits (USD)</span>
+          <div className="flex flex-wrap gap-6">
+            {([['daily', 'Per day'], ['perSession', 'Per session']] as const).map(([key, label]) => (
+              <label key={key} className="flex items-center gap-3 text-[11px] text-zinc-400">
+                {label}
+                <input
+                  type="number" min={0} step={0.5}
+                  defaultValue={limits[key] ?? ''}
+                  placeholder="none"
+                  onBlur={(e) => onChangeLimits({ ...limits, [key]: parseAmount(e.target.value) })}
+                  className={cellInputClass}
+                />
+              </label>
+            ))}
+          </div>
+          <p className="text-[10px] text-zinc-600">Sending past a limit asks for confirmation first.</p>
+        </div>
+
+        <div className="space-y-2">
+          <span className={labelClass}>Price table (USD)</span>
+          <table className="w-full text-[11px] text-zinc-400">
+            <thead>
+              <tr className="text-zinc-600">
+                <th className="py-1.5 text-left font-normal">Model</th>
+                {PRICE_FIELDS.map(f => <th key={f.key} className="py-1.5 text-right font-normal">{f.label}</th>)}
+              </tr>
+            </thead>
+            <tbody>
+              {models.map(model => (
+                <tr key={model} className="border-t border-white/5">
+                  <td className="py-1.5 pr-3 truncate max-w-[200px]">{model}</td>
+                  {PRICE_FIELDS.map(f => (
+                    <td key={f.key} className="py-1.5 pl-2 text-right">
+                      <input
+                        type="number" min={0} step={0.01}
+                        defaultValue={prices[model]?.[f.key] ?? ''}
+                        onBlur={(e) => updatePrice(model, f.key, e.target.value)}
+                        className={cellInputClass}
+                      />
+                    </td>
+                  ))}
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+
+        <div className="flex justify-end">
+          {confirmingClear ? (
+            <div className="flex items-center gap-2">
+              <span className="text-[10px] text-zinc-500">Delete all {records.length} records?</span>
+              <button onClick={() => setConfirmingClear(false)} className="px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-zinc-500 hover:text-white">Cancel</button>
+              <button onClick={() => { onClear(); setConfirmingClear(false); }} className="px-4 py-2 rounded-xl bg-red-600/80 hover:bg-red-500 text-white text-[10px] font-black uppercase tracking-widest">Clear</button>
+            </div>
+          ) : (
+            <button onClick={() => setConfirmingClear(true)} disabled={records.length === 0} className="flex items-center gap-2 px-4 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-zinc-500 hover:text-red-400 disabled:opacity-30">
+              <TrashIcon className="w-3.5 h-3.5" /> Clear ledger
+            </button>
+          )}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default UsageDashboard;
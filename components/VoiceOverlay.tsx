@@ -1,40 +1,94 @@
 
 import React, { useEffect, useState, useRef, useCallback } from 'react';
-import { GoogleGenAI, LiveServerMessage, Modality, Blob } from '@google/genai';
+import { LiveServerMessage } from '@google/genai';
 import { 
-  XIcon, MicIcon, BotIcon, EyeIcon, GlobeIcon
+  XIcon, MicIcon, MicOffIcon, BotIcon, EyeIcon, GlobeIcon, PowerIcon, RotateCwIcon, CameraIcon, SlidersIcon, CheckIcon
 } from './Icons';
-import { DeviceType } from '../types';
+import { DeviceType, Attachment, Persona } from '../types';
 import { feedback } from '../services/feedbackService';
-import { decodeBase64, decodePCM, encodeBase64, ULTRA_SYSTEM_INSTRUCTION } from '../services/geminiService';
+import { decodeBase64, decodePCM, encodeBase64 } from '../services/geminiService';
+import { LiveTransport, LiveConnection, LiveError, LiveErrorKind, MAX_RECONNECT_ATTEMPTS, mediaError, networkError, closeError, playbackError, reconnectDelay } from '../services/liveService';
+import { VisionSettings, VisionSource, DEFAULT_VISION_SETTINGS, FPS_OPTIONS, RESOLUTION_OPTIONS, FrameDiffer, loadVisionSettings, saveVisionSettings, listCameras, canShareScreen, openVisionStream, visionErrorMessage, isMissingCamera, encodeFrame, encodeSnapshot } from '../services/visionService';
+import { AudioCapture, CaptureControls, CaptureMode, CAPTURE_MIME_TYPE, startCapture, loadCaptureMode, saveCaptureMode } from '../services/audioCaptureService';
+
+/** One completed exchange, transcribed. Either side may be empty when only one party spoke. */
+export interface LiveTurn {
+  mode: 'voice' | 'vision';
+  userText: string;
+  modelText: string;
+  frame?: Attachment; // last camera frame sent during the turn
+}
+
+const labelClass = 'text-[9px] font-black uppercase tracking-widest text-zinc-500';
+const selectClass = 'w-full px-3 py-2 bg-white/5 rounded-xl border border-white/5 text-[10px] font-black uppercase tracking-widest text-white outline-none focus:border-blue-500/30';
+
+const ERROR_TITLES: Record<LiveErrorKind, string> = {
+  'permission-denied': 'Access blocked',
+  'no-device': 'No input device',
+  'network': 'Connection lost',
+  'server-closed': 'Session ended',
+  'playback': 'Playback failed',
+};
 
 interface VoiceOverlayProps {
   onClose: () => void;
-  onConfirmText?: (text: string) => void;
-  apiKey: string;
+  onTurnComplete?: (turn: LiveTurn) => void;
+  onSnapshot?: (frame: Attachment) => void; // attaches a full-resolution still to the chat composer
+  persona: Persona;
+  recap?: string; // earlier turns of the session, read whenever the stream (re)connects
+  transport: LiveTransport;
   initialMode: 'voice' | 'vision';
   deviceType: DeviceType;
 }
 
-const VoiceOverlay: React.FC<VoiceOverlayProps> = ({ onClose, apiKey, initialMode, deviceType }) => {
-  const [status, setStatus] = useState<'connecting' | 'listening' | 'speaking' | 'error'>('connecting');
+const VoiceOverlay: React.FC<VoiceOverlayProps> = ({ onClose, onTurnComplete, onSnapshot, persona, recap, transport, initialMode, deviceType }) => {
+  const [status, setStatus] = useState<'connecting' | 'listening' | 'speaking' | 'reconnecting' | 'error'>('connecting');
+  const [error, setError] = useState<LiveError | null>(null);
+  const [reconnectAttempt, setReconnectAttempt] = useState(0);
   const [mode, setMode] = useState<'voice' | 'vision'>(initialMode);
   const [isConnected, setIsConnected] = useState(false);
-  const [inputLevel, setInputLevel] = useState(0); 
+  const [inputLevel, setInputLevel] = useState(0);
+  const [userSpeaking, setUserSpeaking] = useState(false);
+  const [captureMode, setCaptureMode] = useState<CaptureMode>(loadCaptureMode);
+  const [muted, setMuted] = useState(false);
+  const [talking, setTalking] = useState(false);
   const [inputTranscript, setInputTranscript] = useState('');
   const [outputTranscript, setOutputTranscript] = useState('');
   const [detectedLang, setDetectedLang] = useState('AUTO');
+  const [visionSettings, setVisionSettings] = useState<VisionSettings>(loadVisionSettings);
+  const [visionError, setVisionError] = useState<string | null>(null);
+  const [cameras, setCameras] = useState<MediaDeviceInfo[]>([]);
+  const [isSourcePickerOpen, setIsSourcePickerOpen] = useState(false);
+  const [frameStats, setFrameStats] = useState({ sent: 0, skipped: 0 });
+  const [snapshotAdded, setSnapshotAdded] = useState(false);
   
   const audioContextsRef = useRef<{ input?: AudioContext, output?: AudioContext }>({});
   const gainNodeRef = useRef<GainNode | null>(null);
   const sourcesRef = useRef<Set<AudioBufferSourceNode>>(new Set());
   const nextStartTimeRef = useRef<number>(0);
   const activeSessionIdRef = useRef<string | null>(null);
+  const captureRef = useRef<AudioCapture | null>(null);
+  const connectionRef = useRef<LiveConnection | null>(null);
+  const connectRef = useRef<() => void>(() => {});
+  const retryTimerRef = useRef<number | null>(null);
+  const attemptRef = useRef(0); // consecutive failed connections, reset once the server finishes setup
+  const resumeHandleRef = useRef<string | undefined>(undefined); // outlives reconnects and mode switches
+  const goingAwayRef = useRef(false);
+  // Read when capture starts, so toggling them reaches the worklet without reconnecting.
+  const controlsRef = useRef<CaptureControls>({ mode: captureMode, muted, talking });
+  // Transcripts are mirrored in refs so a turn can be flushed from the socket callbacks and on close.
+  const inputTranscriptRef = useRef('');
+  const outputTranscriptRef = useRef('');
+  const lastFrameRef = useRef<string | null>(null);
+  const turnModeRef = useRef(initialMode);
+  const onTurnCompleteRef = useRef(onTurnComplete);
+  onTurnCompleteRef.current = onTurnComplete;
+  // Saved turns change the recap; reading it through a ref keeps that from reconnecting mid-conversation.
+  const seedRef = useRef({ persona, recap });
+  seedRef.current = { persona, recap };
 
   const videoRef = useRef<HTMLVideoElement>(null);
-  const canvasRef = useRef<HTMLCanvasElement>(null);
   const mediaStreamRef = useRef<MediaStream | null>(null);
-  const frameIntervalRef = useRef<number | null>(null);
 
   const parseLang = (text: string) => {
     const match = text.match(/^\[([A-Z]{2})\]/);
@@ -45,9 +99,169 @@ const VoiceOverlay: React.FC<VoiceOverlayProps> = ({ onClose, apiKey, initialMod
     return text;
   };
 
+  const flushTurn = useCallback(() => {
+    const userText = inputTranscriptRef.current.trim();
+    const modelText = outputTranscriptRef.current.trim();
+    inputTranscriptRef.current = '';
+    outputTranscriptRef.current = '';
+    setInputTranscript('');
+    setOutputTranscript('');
+    if (!userText && !modelText) return;
+    const frame = lastFrameRef.current;
+    onTurnCompleteRef.current?.({
+      mode: turnModeRef.current,
+      userText,
+      modelText,
+      frame: frame ? { mimeType: 'image/jpeg', data: frame, url: `data:image/jpeg;base64,${frame}`, name: `live-frame-${Date.now()}.jpg` } : undefined,
+    });
+  }, []);
+
+  useEffect(() => {
+    controlsRef.current = { mode: captureMode, muted, talking };
+    captureRef.current?.update(controlsRef.current);
+  }, [captureMode, muted, talking]);
+
+  useEffect(() => saveCaptureMode(captureMode), [captureMode]);
+
+  // Space bar doubles as the talk button.
+  useEffect(() => {
+    if (captureMode !== 'push-to-talk') return;
+    const isSpace = (e: KeyboardEvent) => e.code === 'Space' && !(e.target instanceof HTMLInputElement || e.target instanceof HTMLTextAreaElement);
+    const down = (e: KeyboardEvent) => { if (isSpace(e)) { e.preventDefault(); if (!e.repeat) setTalking(true); } };
+    const up = (e: KeyboardEvent) => { if (isSpace(e)) setTalking(false); };
+    const release = () => setTalking(false);
+    window.addEventListener('keydown', down);
+    window.addEventListener('keyup', up);
+    window.addEventListener('blur', release);
+    return () => {
+      window.removeEventListener('keydown', down);
+      window.removeEventListener('keyup', up);
+      window.removeEventListener('blur', release);
+      setTalking(false);
+    };
+  }, [captureMode]);
+
+  // Flush first so the turn so far is saved under the mode it happened in.
+  useEffect(() => {
+    if (turnModeRef.current === mode) return;
+    flushTurn();
+    lastFrameRef.current = null;
+    turnModeRef.current = mode;
+  }, [mode, flushTurn]);
+
+  useEffect(() => saveVisionSettings(visionSettings), [visionSettings]);
+
+  // The video source runs beside the audio stream and outlives reconnects: reopening a screen share needs a fresh user gesture.
+  const { source: visionSource, fps: visionFps, maxEdge: visionMaxEdge } = visionSettings;
+  useEffect(() => {
+    if (mode !== 'vision') return;
+    const source = visionSource;
+    let stream: MediaStream | null = null;
+    let stopped = false;
+
+    openVisionStream(source).then(opened => {
+      if (stopped) return opened.getTracks().forEach(t => t.stop());
+      stream = opened;
+      if (videoRef.current) videoRef.current.srcObject = opened;
+      // Ending a screen share from the browser's own bar falls back to the camera.
+      opened.getVideoTracks()[0]?.addEventListener('ended', () => {
+        if (stopped) return;
+        setVisionError(source === 'screen' ? 'Screen sharing stopped.' : 'The camera was disconnected.');
+        setVisionSettings(v => ({ ...v, source: DEFAULT_VISION_SETTINGS.source }));
+      });
+      listCameras().then(setCameras).catch(() => {});
+    }).catch(err => {
+      if (stopped) return;
+      if (source.startsWith('device:') && isMissingCamera(err)) {
+        setVisionError('The saved camera is no longer available, so the front camera is used instead.');
+        setVisionSettings(v => ({ ...v, source: DEFAULT_VISION_SETTINGS.source }));
+        return;
+      }
+      setVisionError(visionErrorMessage(err, source));
+    });
+
+    return () => {
+      stopped = true;
+      stream?.getTracks().forEach(t => t.stop());
+      if (videoRef.current) videoRef.current.srcObject = null;
+    };
+  }, [mode, visionSource]);
+
+  // Frames go to whichever connection is current; each new one starts with a full frame.
+  useEffect(() => {
+    if (mode !== 'vision') return;
+    const canvas = document.createElement('canvas');
+    let differ = new FrameDiffer();
+    let sentTo: LiveConnection | null = null;
+    let stopped = false;
+    setFrameStats({ sent: 0, skipped: 0 });
+
+    const sendFrame = async () => {
+      const video = videoRef.current;
+      const connection = connectionRef.current;
+      if (!connection || !video || video.readyState < 2) return;
+      if (connection !== sentTo) {
+        differ = new FrameDiffer();
+        sentTo = connection;
+      }
+      if (!differ.hasChanged(video)) {
+        setFrameStats(s => ({ ...s, skipped: s.skipped + 1 }));
+        return;
+      }
+      const data = await encodeFrame(video, canvas, visionMaxEdge);
+      if (!data || stopped || connectionRef.current !== connection) return;
+      lastFrameRef.current = data;
+      try {
+        connection.sendFrame(data);
+      } catch (err) {
+        console.error(err); // the socket closed under the frame; onClose takes it from here
+        return;
+      }
+      setFrameStats(s => ({ ...s, sent: s.sent + 1 }));
+    };
+
+    const timer = window.setInterval(sendFrame, 1000 / visionFps);
+    return () => {
+      stopped = true;
+      window.clearInterval(timer);
+    };
+  }, [mode, visionFps, visionMaxEdge]);
+
+  useEffect(() => {
+    const refresh = () => listCameras().then(setCameras).catch(() => {});
+    navigator.mediaDevices?.addEventListener('devicechange', refresh);
+    return () => navigator.mediaDevices?.removeEventListener('devicechange', refresh);
+  }, []);
+
+  const updateVision = (patch: Partial<VisionSettings>) => {
+    setVisionError(null);
+    setVisionSettings(v => ({ ...v, ...patch }));
+  };
+
+  const takeSnapshot = async () => {
+    const video = videoRef.current;
+    if (!video || video.readyState < 2 || !onSnapshot) return;
+    const data = await encodeSnapshot(video);
+    if (!data) return;
+    feedback.vibrate(10);
+    feedback.playSound('click');
+    onSnapshot({ mimeType: 'image/jpeg', data, url: `data:image/jpeg;base64,${data}`, name: `snapshot-${Date.now()}.jpg` });
+    setSnapshotAdded(true);
+    window.setTimeout(() => setSnapshotAdded(false), 1500);
+  };
+
   const cleanup = useCallback(async () => {
+    flushTurn();
+    lastFrameRef.current = null;
     activeSessionIdRef.current = null;
-    if (frameIntervalRef.current) window.clearInterval(frameIntervalRef.current);
+    if (retryTimerRef.current) window.clearTimeout(retryTimerRef.current);
+    retryTimerRef.current = null;
+    connectionRef.current?.close();
+    connectionRef.current = null;
+    captureRef.current?.stop();
+    captureRef.current = null;
+    setInputLevel(0);
+    setUserSpeaking(false);
     if (mediaStreamRef.current) {
       mediaStreamRef.current.getTracks().forEach(t => t.stop());
       mediaStreamRef.current = null;
@@ -58,149 +272,192 @@ const VoiceOverlay: React.FC<VoiceOverlayProps> = ({ onClose, apiKey, initialMod
     if (audioContextsRef.current.output) await audioContextsRef.current.output.close();
     audioContextsRef.current = {};
     setIsConnected(false);
-  }, []);
+  }, [flushTurn]);
+
+  /** Tears the stream down, then schedules a reconnect or leaves the error on screen. */
+  const fail = useCallback((failure: LiveError) => {
+    cleanup();
+    setError(failure);
+    if (!failure.retryable || attemptRef.current >= MAX_RECONNECT_ATTEMPTS) {
+      setStatus('error');
+      return;
+    }
+    const delay = reconnectDelay(attemptRef.current);
+    attemptRef.current++;
+    setReconnectAttempt(attemptRef.current);
+    setStatus('reconnecting');
+    retryTimerRef.current = window.setTimeout(() => connectRef.current(), delay);
+  }, [cleanup]);
 
   const connect = useCallback(async () => {
     await cleanup();
     const sessionId = crypto.randomUUID();
     activeSessionIdRef.current = sessionId;
-    
+    goingAwayRef.current = false;
+    const isActive = () => activeSessionIdRef.current === sessionId;
+    setStatus(attemptRef.current ? 'reconnecting' : 'connecting');
+
+    const inputCtx = new (window.AudioContext || (window as any).webkitAudioContext)();
+    const outputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
+    audioContextsRef.current = { input: inputCtx, output: outputCtx };
+    const gainNode = outputCtx.createGain();
+    gainNode.connect(outputCtx.destination);
+    gainNodeRef.current = gainNode;
+
+    let stream: MediaStream;
     try {
-      setStatus('connecting');
-      const ai = new GoogleGenAI({ apiKey });
-      
-      const inputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 16000 });
-      const outputCtx = new (window.AudioContext || (window as any).webkitAudioContext)({ sampleRate: 24000 });
       await inputCtx.resume();
       await outputCtx.resume();
+      stream = await navigator.mediaDevices.getUserMedia({ audio: { echoCancellation: true, noiseSuppression: true } });
+    } catch (err) {
+      if (isActive()) fail(mediaError(err));
+      return;
+    }
+
+    if (!isActive()) return stream.getTracks().forEach(t => t.stop());
+    mediaStreamRef.current = stream;
+
+    const seed = seedRef.current;
+    const resumeHandle = resumeHandleRef.current;
+    let ready = false;
+
+    // Playback can fail on a closing context; that goes through `fail` like any other drop.
+    const handleMessage = async (msg: LiveServerMessage) => {
+      if (!isActive()) return;
+
+      if (msg.setupComplete) {
+        ready = true;
+        attemptRef.current = 0;
+        setReconnectAttempt(0);
+        setError(null);
+      }
+      if (msg.sessionResumptionUpdate?.resumable && msg.sessionResumptionUpdate.newHandle) {
+        resumeHandleRef.current = msg.sessionResumptionUpdate.newHandle;
+      }
+      if (msg.goAway) {
+        // The server is about to close; move to a fresh connection now and resume there.
+        goingAwayRef.current = true;
+        connectRef.current();
+        return;
+      }
       
-      audioContextsRef.current = { input: inputCtx, output: outputCtx };
-      const gainNode = outputCtx.createGain();
-      gainNode.connect(outputCtx.destination);
-      gainNodeRef.current = gainNode;
-
-      const stream = await navigator.mediaDevices.getUserMedia({ 
-        audio: { echoCancellation: true, noiseSuppression: true }, 
-        video: mode === 'vision' ? { 
-          facingMode: 'user', 
-          width: { ideal: 1920 }, 
-          height: { ideal: 1080 }
-        } : false 
-      });
-      
-      if (activeSessionIdRef.current !== sessionId) return stream.getTracks().forEach(t => t.stop());
-      mediaStreamRef.current = stream;
+      if (msg.serverContent?.inputTranscription) {
+        const cleaned = parseLang(msg.serverContent.inputTranscription.text || '');
+        inputTranscriptRef.current += cleaned;
+        setInputTranscript(inputTranscriptRef.current);
+      }
+      if (msg.serverContent?.outputTranscription) {
+        const cleaned = parseLang(msg.serverContent.outputTranscription.text || '');
+        outputTranscriptRef.current += cleaned;
+        setOutputTranscript(outputTranscriptRef.current);
+      }
+      if (msg.serverContent?.turnComplete) flushTurn();
 
-      if (mode === 'vision' && videoRef.current) {
-        videoRef.current.srcObject = stream;
+      const audioBase64 = msg.serverContent?.modelTurn?.parts?.[0]?.inlineData?.data;
+      if (audioBase64) {
+        setStatus('speaking');
+        nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputCtx.currentTime);
+        const buffer = await decodePCM(decodeBase64(audioBase64), outputCtx, 24000, 1);
+        if (!isActive()) return; // torn down or reconnected while decoding; the output context may be closed
+        const source = outputCtx.createBufferSource();
+        source.buffer = buffer;
+        source.connect(gainNodeRef.current!);
+        source.onended = () => {
+          sourcesRef.current.delete(source);
+          if (sourcesRef.current.size === 0) setStatus('listening');
+        };
+        source.start(nextStartTimeRef.current);
+        nextStartTimeRef.current += buffer.duration;
+        sourcesRef.current.add(source);
       }
+      if (msg.serverContent?.interrupted) {
+        for (const s of sourcesRef.current) try { s.stop(); } catch(e) {}
+        sourcesRef.current.clear();
+        nextStartTimeRef.current = 0;
+        setStatus('listening');
+        flushTurn(); // keep the cut-off reply as its own turn
+      }
+    };
 
-      const sessionPromise = ai.live.connect({
-        model: 'gemini-2.5-flash-native-audio-preview-12-2025',
-        config: {
-          responseModalities: [Modality.AUDIO],
-          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } } },
-          inputAudioTranscription: {},
-          outputAudioTranscription: {},
-          systemInstruction: ULTRA_SYSTEM_INSTRUCTION
-        },
-        callbacks: {
-          onopen: () => {
-            if (activeSessionIdRef.current !== sessionId) return;
-            setIsConnected(true);
-            setStatus('listening');
-            
-            const source = inputCtx.createMediaStreamSource(stream);
-            const scriptProcessor = inputCtx.createScriptProcessor(1024, 1, 1);
-            
-            scriptProcessor.onaudioprocess = (e) => {
-              if (activeSessionIdRef.current !== sessionId) return;
-              const inputData = e.inputBuffer.getChannelData(0);
-              let sum = 0;
-              for(let i=0; i<inputData.length; i++) sum += inputData[i]*inputData[i];
-              setInputLevel(Math.sqrt(sum/inputData.length));
-
-              const pcmBlob = {
-                data: encodeBase64(new Uint8Array(new Int16Array(inputData.map(v => v * 32767)).buffer)),
-                mimeType: 'audio/pcm;rate=16000'
-              };
-              sessionPromise.then(s => s.sendRealtimeInput({ media: pcmBlob }));
-            };
-            
-            source.connect(scriptProcessor);
-            scriptProcessor.connect(inputCtx.destination);
-
-            if (mode === 'vision') {
-              frameIntervalRef.current = window.setInterval(() => {
-                if (activeSessionIdRef.current !== sessionId || !videoRef.current || !canvasRef.current) return;
-                const canvas = canvasRef.current;
-                const ctx = canvas.getContext('2d');
-                if (ctx && videoRef.current.readyState >= 2) {
-                  canvas.width = 320; 
-                  canvas.height = 240;
-                  ctx.drawImage(videoRef.current, 0, 0, canvas.width, canvas.height);
-                  canvas.toBlob(async (blob) => {
-                    if (blob) {
-                      const data = await new Promise<string>(r => {
-                        const reader = new FileReader();
-                        reader.onloadend = () => r((reader.result as string).split(',')[1]);
-                        reader.readAsDataURL(blob);
-                      });
-                      sessionPromise.then(s => s.sendRealtimeInput({ media: { data, mimeType: 'image/jpeg' } }));
-                    }
-                  }, 'image/jpeg', 0.5);
-                }
-              }, 500); 
-            }
-          },
-          onmessage: async (msg: LiveServerMessage) => {
-            if (activeSessionIdRef.current !== sessionId) return;
-            
-            if (msg.serverContent?.inputTranscription) {
-              const cleaned = parseLang(msg.serverContent.inputTranscription.text);
-              setInputTranscript(t => t + cleaned);
-            }
-            if (msg.serverContent?.outputTranscription) {
-              const cleaned = parseLang(msg.serverContent.outputTranscription.text);
-              setOutputTranscript(t => t + cleaned);
-            }
-            if (msg.serverContent?.turnComplete) { setInputTranscript(''); setOutputTranscript(''); }
-
-            const audioBase64 = msg.serverContent?.modelTurn?.parts[0]?.inlineData?.data;
-            if (audioBase64) {
-              setStatus('speaking');
-              nextStartTimeRef.current = Math.max(nextStartTimeRef.current, outputCtx.currentTime);
-              const buffer = await decodePCM(decodeBase64(audioBase64), outputCtx, 24000, 1);
-              const source = outputCtx.createBufferSource();
-              source.buffer = buffer;
-              source.connect(gainNodeRef.current!);
-              source.onended = () => {
-                sourcesRef.current.delete(source);
-                if (sourcesRef.current.size === 0) setStatus('listening');
-              };
-              source.start(nextStartTimeRef.current);
-              nextStartTimeRef.current += buffer.duration;
-              sourcesRef.current.add(source);
-            }
-            if (msg.serverContent?.interrupted) {
-              for (const s of sourcesRef.current) try { s.stop(); } catch(e) {}
-              sourcesRef.current.clear();
-              nextStartTimeRef.current = 0;
-              setStatus('listening');
-            }
-          },
-          onerror: () => setStatus('error'),
-          onclose: () => setIsConnected(false)
-        }
-      });
-    } catch (err) { setStatus('error'); }
-  }, [apiKey, mode, cleanup]);
+    const connectionPromise = transport.connect({
+      systemInstruction: seed.recap
+        ? `${seed.persona.systemInstruction}\n\nThis spoken conversation continues an earlier one with the same user; pick up where it left off.\n\n${seed.recap}`
+        : seed.persona.systemInstruction,
+      temperature: seed.persona.temperature,
+      resumeHandle,
+    }, {
+      onOpen: () => {
+        if (!isActive()) return;
+        setIsConnected(true);
+        setStatus('listening');
+
+        startCapture(inputCtx, stream, controlsRef.current, (event) => {
+          if (!isActive()) return;
+          if (event.type === 'level') {
+            setInputLevel(event.level);
+            setUserSpeaking(event.speaking);
+            return;
+          }
+          // A send can throw once the socket has closed; onClose reports that, so the chunk is just dropped.
+          try {
+            if (event.type === 'audio') connectionRef.current?.sendAudio(encodeBase64(new Uint8Array(event.pcm)));
+            else connectionRef.current?.sendAudioStreamEnd();
+          } catch (err) {
+            console.error(err);
+          }
+        }).then(capture => {
+          if (!isActive()) return capture.stop();
+          captureRef.current = capture;
+          capture.update(controlsRef.current);
+        }).catch(err => { if (isActive()) fail(mediaError(err)); });
+      },
+      onMessage: (msg: LiveServerMessage) => {
+        handleMessage(msg).catch(err => { if (isActive()) fail(playbackError(err)); });
+      },
+      onClose: (info) => {
+        if (!isActive()) return;
+        if (!ready && resumeHandle === resumeHandleRef.current) resumeHandleRef.current = undefined; // the server refused the handle
+        fail(closeError(info, goingAwayRef.current));
+      }
+    });
+
+    connectionPromise.then(
+      connection => {
+        if (isActive()) connectionRef.current = connection;
+        else connection.close();
+      },
+      () => { if (isActive()) fail(networkError()); }
+    );
+  }, [transport, cleanup, flushTurn, fail]);
+  connectRef.current = connect;
+
+  const retry = () => {
+    feedback.vibrate(10);
+    attemptRef.current = 0;
+    setReconnectAttempt(0);
+    setError(null);
+    connect();
+  };
 
   useEffect(() => {
     connect();
     return () => { cleanup(); };
   }, [connect, cleanup]);
 
+  const pushToTalk = captureMode === 'push-to-talk';
+  const statusLabel = status === 'reconnecting' ? `reconnecting ${reconnectAttempt}/${MAX_RECONNECT_ATTEMPTS}`
+    : muted ? 'muted'
+    : status !== 'listening' ? status
+    : pushToTalk ? (talking ? 'transmitting' : 'hold to talk')
+    : userSpeaking ? 'hearing you' : status;
+
+  const talkHandlers = pushToTalk ? {
+    onPointerDown: () => { feedback.vibrate(10); setTalking(true); },
+    onPointerUp: () => setTalking(false),
+    onPointerLeave: () => setTalking(false),
+    onPointerCancel: () => setTalking(false),
+  } : {};
+
   return (
     <div className="fixed inset-0 z-[100] bg-black flex flex-col items-center justify-center overflow-hidden font-sans animate-in fade-in duration-700">
       
@@ -211,7 +468,7 @@ const VoiceOverlay: React.FC<VoiceOverlayProps> = ({ onClose, apiKey, initialMod
             autoPlay 
             playsInline 
             muted 
-            className="w-full h-full object-cover scale-x-[-1] opacity-70 transition-opacity duration-1000"
+            className={`w-full h-full opacity-70 transition-opacity duration-1000 ${visionSettings.source === 'screen' ? 'object-contain' : 'object-cover'} ${visionSettings.source === 'front' ? 'scale-x-[-1]' : ''}`}
           />
           <div className="absolute inset-0 bg-gradient-to-t from-black via-transparent to-black opacity-80"></div>
           {/* Subtle scan line without flash */}
@@ -236,7 +493,7 @@ const VoiceOverlay: React.FC<VoiceOverlayProps> = ({ onClose, apiKey, initialMod
         <div className="flex flex-col gap-2 pointer-events-auto animate-in slide-in-from-top-4 duration-500">
           <div className="flex items-center gap-3">
              <div className="flex items-center gap-2 px-4 py-2 bg-blue-500/10 border border-blue-500/30 rounded-full backdrop-blur-2xl">
-                <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-green-500 animate-pulse' : 'bg-red-500'}`} />
+                <div className={`w-2 h-2 rounded-full ${isConnected ? 'bg-green-500 animate-pulse' : status === 'reconnecting' ? 'bg-amber-500 animate-pulse' : 'bg-red-500'}`} />
                 <h3 className="text-blue-400 font-black uppercase tracking-[0.2em] text-[11px]">Neural Stream v3</h3>
              </div>
              <div className="flex items-center gap-2 px-4 py-2 bg-zinc-900/80 border border-white/5 rounded-full backdrop-blur-2xl shadow-2xl">
@@ -247,6 +504,29 @@ const VoiceOverlay: React.FC<VoiceOverlayProps> = ({ onClose, apiKey, initialMod
         </div>
 
         <div className="flex gap-4 pointer-events-auto">
+          {mode === 'vision' && (
+            <>
+              {onSnapshot && (
+                <button 
+                  onClick={takeSnapshot}
+                  title="Attach the current frame to the chat"
+                  className={`group p-5 bg-zinc-950/80 backdrop-blur-3xl rounded-[2rem] border transition-all shadow-2xl active:scale-90 ${snapshotAdded ? 'border-green-500/50 text-green-400' : 'border-white/10 text-white hover:bg-white/10'}`}
+                >
+                  {snapshotAdded ? <CheckIcon className="w-7 h-7" /> : <CameraIcon className="w-7 h-7 group-hover:scale-110 transition-transform" />}
+                </button>
+              )}
+              <button 
+                onClick={() => {
+                  setIsSourcePickerOpen(o => !o);
+                  listCameras().then(setCameras).catch(() => {});
+                }}
+                title="Video source"
+                className={`group p-5 bg-zinc-950/80 backdrop-blur-3xl rounded-[2rem] border transition-all shadow-2xl active:scale-90 ${isSourcePickerOpen ? 'border-blue-500/50 text-blue-400' : 'border-white/10 text-white hover:bg-white/10'}`}
+              >
+                <SlidersIcon className="w-7 h-7 group-hover:scale-110 transition-transform" />
+              </button>
+            </>
+          )}
           <button 
             onClick={() => {
               feedback.vibrate(10);
@@ -265,6 +545,87 @@ const VoiceOverlay: React.FC<VoiceOverlayProps> = ({ onClose, apiKey, initialMod
         </div>
       </header>
 
+      {mode === 'vision' && (isSourcePickerOpen || visionError) && (
+        <div className="absolute top-32 right-8 z-[115] w-72 p-6 bg-zinc-950/90 backdrop-blur-2xl border border-white/10 rounded-[2rem] shadow-2xl space-y-4 animate-in slide-in-from-top-4 duration-500">
+          {visionError && <p className="text-[11px] text-amber-400">{visionError}</p>}
+          {isSourcePickerOpen && (
+            <>
+              <label className="block space-y-2">
+                <span className={labelClass}>Source</span>
+                <select
+                  value={visionSettings.source}
+                  onChange={(e) => updateVision({ source: e.target.value as VisionSource })}
+                  className={selectClass}
+                >
+                  <option value="front">Front camera</option>
+                  <option value="back">Back camera</option>
+                  {cameras.map((camera, i) => (
+                    <option key={camera.deviceId} value={`device:${camera.deviceId}`}>{camera.label || `Camera ${i + 1}`}</option>
+                  ))}
+                  {canShareScreen() && <option value="screen">Screen or tab</option>}
+                </select>
+              </label>
+              <div className="flex gap-3">
+                <label className="flex-1 space-y-2">
+                  <span className={labelClass}>Rate</span>
+                  <select
+                    value={visionSettings.fps}
+                    onChange={(e) => updateVision({ fps: Number(e.target.value) })}
+                    className={selectClass}
+                  >
+                    {FPS_OPTIONS.map(fps => <option key={fps} value={fps}>{fps} fps</option>)}
+                  </select>
+                </label>
+                <label className="flex-1 space-y-2">
+                  <span className={labelClass}>Size</span>
+                  <select
+                    value={visionSettings.maxEdge}
+                    onChange={(e) => updateVision({ maxEdge: Number(e.target.value) })}
+                    className={selectClass}
+                  >
+                    {RESOLUTION_OPTIONS.map(r => <option key={r.maxEdge} value={r.maxEdge}>{r.label}</option>)}
+                  </select>
+                </label>
+              </div>
+              <p className="text-[10px] text-zinc-600 tabular-nums">
+                {frameStats.sent} frames sent · {frameStats.skipped} unchanged skipped. Faster and larger frames cost more tokens.
+              </p>
+            </>
+          )}
+        </div>
+      )}
+
+      {status === 'reconnecting' && error && (
+        <div className="absolute top-32 left-0 right-0 z-[115] flex justify-center px-6 animate-in slide-in-from-top-4 duration-500">
+          <div className="flex items-center gap-4 px-6 py-3 bg-amber-500/10 border border-amber-500/30 rounded-full backdrop-blur-2xl">
+            <span className="text-[11px] font-black text-amber-400 uppercase tracking-widest">{ERROR_TITLES[error.kind]}</span>
+            <span className="text-[11px] text-zinc-400">{error.message} Retrying ({reconnectAttempt}/{MAX_RECONNECT_ATTEMPTS})…</span>
+            <button onClick={retry} className="text-[10px] font-black uppercase tracking-widest text-zinc-300 hover:text-white">Now</button>
+          </div>
+        </div>
+      )}
+
+      {status === 'error' && (
+        <div className="absolute inset-0 z-[140] flex items-center justify-center p-6 bg-black/60 backdrop-blur-xl animate-in fade-in duration-500">
+          <div className="w-full max-w-md bg-zinc-950/90 border border-white/10 rounded-[2.5rem] p-10 shadow-2xl flex flex-col items-center text-center gap-5">
+            <div className="p-5 rounded-full bg-red-600/10 border border-red-500/20 text-red-400">
+              {error?.kind === 'network' ? <GlobeIcon className="w-8 h-8" />
+                : error?.kind === 'server-closed' ? <PowerIcon className="w-8 h-8" />
+                : <MicOffIcon className="w-8 h-8" />}
+            </div>
+            <h3 className="text-[11px] font-black uppercase tracking-[0.3em] text-zinc-300">{error ? ERROR_TITLES[error.kind] : 'Live Mode failed'}</h3>
+            <p className="text-sm text-zinc-400">{error?.message || 'Something went wrong.'}</p>
+            {error?.retryable && <p className="text-[10px] text-zinc-600">Gave up after {MAX_RECONNECT_ATTEMPTS} attempts.</p>}
+            <div className="flex gap-3 pt-2">
+              <button onClick={onClose} className="px-5 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest text-zinc-500 hover:text-white">Close</button>
+              <button onClick={retry} className="flex items-center gap-2 px-5 py-2.5 rounded-xl bg-blue-600 hover:bg-blue-500 text-white text-[10px] font-black uppercase tracking-widest shadow-xl shadow-blue-900/40">
+                <RotateCwIcon className="w-3.5 h-3.5" /> Retry
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
+
       <div className={`flex-1 flex flex-col items-center justify-center z-10 transition-all duration-1000 ${mode === 'vision' ? 'opacity-30 scale-90 translate-y-20' : 'opacity-100'}`}>
         {!mode && (
           <style>{`
@@ -284,13 +645,16 @@ const VoiceOverlay: React.FC<VoiceOverlayProps> = ({ onClose, apiKey, initialMod
            <div className={`absolute -inset-16 bg-blue-600/10 blur-[120px] rounded-full transition-opacity duration-1000 ${status === 'speaking' ? 'opacity-100' : 'opacity-0'}`} />
            
            <div 
-             className="w-64 h-64 bg-zinc-950/80 backdrop-blur-[80px] rounded-full flex items-center justify-center border border-white/5 shadow-[0_0_100px_rgba(0,0,0,0.8)] transition-transform duration-300 ease-out"
-             style={{ transform: `scale(${1 + inputLevel * 15})` }}
+             {...talkHandlers}
+             className={`w-64 h-64 bg-zinc-950/80 backdrop-blur-[80px] rounded-full flex items-center justify-center border shadow-[0_0_100px_rgba(0,0,0,0.8)] transition-transform duration-300 ease-out ${pushToTalk ? 'cursor-pointer select-none touch-none' : ''} ${talking ? 'border-blue-500/60' : 'border-white/5'}`}
+             style={{ transform: `scale(${1 + (muted ? 0 : inputLevel) * 15})` }}
            >
              {status === 'speaking' ? (
                <BotIcon className="w-32 h-32 text-blue-400 animate-[neural-pulse_2s_ease-in-out_infinite] drop-shadow-[0_0_20px_rgba(96,165,250,0.5)]" />
+             ) : muted ? (
+               <MicOffIcon className="w-32 h-32 text-red-400/80" />
              ) : (
-               <MicIcon className="w-32 h-32 text-white/90 drop-shadow-[0_0_15px_rgba(255,255,255,0.3)]" />
+               <MicIcon className={`w-32 h-32 drop-shadow-[0_0_15px_rgba(255,255,255,0.3)] ${userSpeaking || talking ? 'text-blue-300' : 'text-white/90'}`} />
              )}
            </div>
         </div>
@@ -317,7 +681,24 @@ const VoiceOverlay: React.FC<VoiceOverlayProps> = ({ onClose, apiKey, initialMod
             </div>
             <div className="h-5 w-[1px] bg-white/10" />
             <div className="flex items-center gap-4">
-              <span className="text-[11px] font-black text-blue-400 uppercase tracking-[0.3em]">{status}</span>
+              <span className="text-[11px] font-black text-blue-400 uppercase tracking-[0.3em]">{statusLabel}</span>
+            </div>
+            <div className="h-5 w-[1px] bg-white/10" />
+            <div className="flex items-center gap-3">
+              <button
+                onClick={() => { feedback.vibrate(10); setCaptureMode(m => m === 'vad' ? 'push-to-talk' : 'vad'); }}
+                title={pushToTalk ? 'Hold the mic or Space to talk' : 'Sends audio while you speak'}
+                className="px-4 py-2 rounded-full bg-white/5 border border-white/5 text-[10px] font-black uppercase tracking-widest text-zinc-400 hover:text-white transition-all"
+              >
+                {pushToTalk ? 'Push to talk' : 'Auto detect'}
+              </button>
+              <button
+                onClick={() => { feedback.vibrate(10); setMuted(m => !m); }}
+                title={muted ? 'Unmute' : 'Mute'}
+                className={`p-2.5 rounded-full border transition-all ${muted ? 'bg-red-600/20 border-red-500/40 text-red-400' : 'bg-white/5 border-white/5 text-zinc-400 hover:text-white'}`}
+              >
+                {muted ? <MicOffIcon className="w-4 h-4" /> : <MicIcon className="w-4 h-4" />}
+              </button>
             </div>
         </div>
       </footer>
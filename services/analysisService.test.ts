@@ -0,0 +1,62 @@
+import { describe, it, expect } from 'vitest';
+import { toSentiment, toLogicCheck, parseJSONObject } from './analysisService';
+
+describe('toSentiment', () => {
+  it('clamps the score into -1..1', () => {
+    expect(toSentiment({ score: 3, label: 'Thrilled' })).toEqual({ score: 1, label: 'thrilled' });
+    expect(toSentiment({ score: -7 })).toEqual({ score: -1, label: 'negative' });
+  });
+
+  it('accepts a numeric string and labels a missing or blank label from the score', () => {
+    expect(toSentiment({ score: '0.3' })).toEqual({ score: 0.3, label: 'warm' });
+    expect(toSentiment({ score: 0, label: '  ' })).toEqual({ score: 0, label: 'neutral' });
+  });
+
+  it.each([
+    undefined,
+    null,
+    'positive',
+    42,
+    [0.5],
+    {},
+    { score: 'high' },
+    { score: '' },
+    { score: null },
+    { score: true },
+    { score: Infinity },
+    { score: NaN },
+  ])('rejects %j', (value) => {
+    expect(toSentiment(value)).toBeUndefined();
+  });
+});
+
+describe('toLogicCheck', () => {
+  it('normalises the verdict and trims the critique', () => {
+    expect(toLogicCheck({ verdict: ' Flawed ', critique: ' Step two divides by zero. ' })).toEqual({ verdict: 'flawed', critique: 'Step two divides by zero.' });
+  });
+
+  it.each([
+    undefined,
+    null,
+    'sound',
+    [{ verdict: 'sound', critique: 'Fine.' }],
+    { verdict: 'sound' },
+    { verdict: 'sound', critique: '   ' },
+    { verdict: 'plausible', critique: 'Looks fine.' },
+    { verdict: 1, critique: 'Looks fine.' },
+    { verdict: 'sound', critique: 7 },
+  ])('rejects %j', (value) => {
+    expect(toLogicCheck(value)).toBeUndefined();
+  });
+});
+
+describe('parseJSONObject', () => {
+  it('finds an object inside surrounding prose', () => {
+    expect(parseJSONObject('Sure! ```json\n{"score": 0.2}\n``` Hope that helps.')).toEqual({ score: 0.2 });
+  });
+
+  it('returns undefined when there is no valid object', () => {
+    expect(parseJSONObject('no json here')).toBeUndefined();
+    expect(parseJSONObject('{score: 0.2}')).toBeUndefined();
+  });
+});
@@ -0,0 +1,57 @@
+import { SentimentData, LogicCheck, LogicVerdict } from "../types";
+
+/**
+ * Analysis Service: shared prompts and parsing for the optional
+ * sentiment score on prompts and the logic check on replies.
+ */
+
+export const LOGIC_VERDICTS: LogicVerdict[] = ['sound', 'uncertain', 'flawed'];
+const MAX_ANSWER_CHARS = 6000;
+
+export const SENTIMENT_PROMPT = (text: string) =>
+  `Rate the sentiment of this message from -1 (very negative) to 1 (very positive), and name its dominant tone in one lowercase word (e.g. curious, frustrated, neutral, excited). Message: "${text}"`;
+
+export const LOGIC_CHECK_PROMPT = (question: string, answer: string) =>
+  `Critique the answer below as a careful reviewer. Check that it is internally consistent, that its reasoning follows, and that its factual claims are plausible. Verdict "sound" if you found no problems, "uncertain" if some claims cannot be verified or are weakly supported, "flawed" if it contradicts itself, reasons incorrectly or states something false. Give a critique of at most three sentences naming the specific problems, or confirming what you checked.\n\nQuestion: ${question}\n\nAnswer: ${answer.slice(0, MAX_ANSWER_CHARS)}`;
+
+export function sentimentLabel(score: number): string {
+  if (score <= -0.5) return 'negative';
+  if (score < -0.15) return 'uneasy';
+  if (score <= 0.15) return 'neutral';
+  if (score < 0.5) return 'warm';
+  return 'positive';
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isVerdict = (value: unknown): value is LogicVerdict =>
+  typeof value === 'string' && (LOGIC_VERDICTS as string[]).includes(value);
+
+export function toSentiment(value: unknown): SentimentData | undefined {
+  if (!isRecord(value)) return undefined;
+  const score = typeof value.score === 'number' ? value.score : typeof value.score === 'string' && value.score.trim() ? Number(value.score) : NaN;
+  if (!Number.isFinite(score)) return undefined;
+  const clamped = Math.max(-1, Math.min(1, score));
+  const label = typeof value.label === 'string' && value.label.trim() ? value.label.trim().toLowerCase() : sentimentLabel(clamped);
+  return { score: clamped, label };
+}
+
+export function toLogicCheck(value: unknown): LogicCheck | undefined {
+  if (!isRecord(value)) return undefined;
+  const verdict = typeof value.verdict === 'string' ? value.verdict.trim().toLowerCase() : '';
+  const critique = typeof value.critique === 'string' ? value.critique.trim() : '';
+  if (!isVerdict(verdict) || !critique) return undefined;
+  return { verdict, critique };
+}
+
+/** Pulls the first JSON object out of free-form text, for backends without structured output. */
+export function parseJSONObject(text: string): unknown {
+  const match = text.match(/\{[\s\S]*\}/);
+  if (!match) return undefined;
+  try {
+    return JSON.parse(match[0]);
+  } catch (e) {
+    return undefined;
+  }
+}
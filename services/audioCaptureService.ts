@@ -0,0 +1,196 @@
+/**
+ * Audio Capture: microphone input for Live Mode. An AudioWorklet resamples
+ * to 16 kHz, encodes Int16 PCM and runs a small energy-based voice
+ * detector, so the main thread only sees finished chunks and a level
+ * reading ten times a second.
+ */
+
+const MODE_KEY = 'ultra_chat_live_capture_mode_v1';
+
+export const CAPTURE_RATE = 16000;
+export const CAPTURE_MIME_TYPE = `audio/pcm;rate=${CAPTURE_RATE}`;
+
+/** `vad` sends while speech is detected; `push-to-talk` only while the talk button is held. */
+export type CaptureMode = 'vad' | 'push-to-talk';
+
+export interface CaptureControls {
+  mode: CaptureMode;
+  muted: boolean;
+  talking: boolean; // push-to-talk button held
+}
+
+export type CaptureEvent =
+  | { type: 'audio'; pcm: ArrayBuffer }
+  | { type: 'level'; level: number; speaking: boolean }
+  | { type: 'end' }; // the gate closed; the server should treat the utterance as finished
+
+export interface AudioCapture {
+  update: (controls: Partial<CaptureControls>) => void;
+  stop: () => void;
+}
+
+export function loadCaptureMode(): CaptureMode {
+  return localStorage.getItem(MODE_KEY) === 'push-to-talk' ? 'push-to-talk' : 'vad';
+}
+
+export function saveCaptureMode(mode: CaptureMode) {
+  localStorage.setItem(MODE_KEY, mode);
+}
+
+// Runs in the AudioWorkletGlobalScope, where `sampleRate` is the context's real rate.
+const PROCESSOR_SOURCE = `
+const TARGET_RATE = ${CAPTURE_RATE};
+const FRAME = 320;          // 20 ms
+const CHUNK_FRAMES = 5;     // 100 ms per message
+const LEVEL_FRAMES = 5;     // level reported every 100 ms
+const PREROLL_FRAMES = 10;  // 200 ms kept so the first syllable is not clipped
+const ONSET_FRAMES = 3;     // 60 ms above threshold to start speech
+const HANGOVER_FRAMES = 40; // 800 ms of quiet before speech ends
+const MIN_THRESHOLD = 0.012;
+const SPEECH_RATIO = 3;     // speech must be this much louder than the noise floor
+
+class CaptureProcessor extends AudioWorkletProcessor {
+  constructor(options) {
+    super();
+    this.controls = options.processorOptions;
+    this.ratio = sampleRate / TARGET_RATE;
+    this.phase = 0;
+    this.acc = 0;
+    this.accCount = 0;
+    this.last = 0;
+    this.frame = new Int16Array(FRAME);
+    this.frameLength = 0;
+    this.energy = 0;
+    this.noise = MIN_THRESHOLD / SPEECH_RATIO;
+    this.voiced = 0;
+    this.hangover = 0;
+    this.speaking = false;
+    this.open = false;
+    this.pending = [];
+    this.preroll = [];
+    this.levelPeak = 0;
+    this.levelFrames = 0;
+    this.port.onmessage = (e) => { this.controls = { ...this.controls, ...e.data }; };
+  }
+
+  process(inputs) {
+    const input = inputs[0] && inputs[0][0];
+    if (!input) return true;
+    for (let i = 0; i < input.length; i++) {
+      this.acc += input[i];
+      this.accCount++;
+      this.phase += 1;
+      // Averages each output sample's input span; repeats samples when the device runs below 16 kHz.
+      while (this.phase >= this.ratio) {
+        this.phase -= this.ratio;
+        if (this.accCount) {
+          this.last = this.acc / this.accCount;
+          this.acc = 0;
+          this.accCount = 0;
+        }
+        this.push(this.last);
+      }
+    }
+    return true;
+  }
+
+  push(sample) {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    this.frame[this.frameLength++] = clamped * 32767;
+    this.energy += clamped * clamped;
+    if (this.frameLength === FRAME) this.endFrame();
+  }
+
+  endFrame() {
+    const frame = this.frame;
+    const rms = Math.sqrt(this.energy / FRAME);
+    this.frame = new Int16Array(FRAME);
+    this.frameLength = 0;
+    this.energy = 0;
+
+    const threshold = Math.max(MIN_THRESHOLD, this.noise * SPEECH_RATIO);
+    if (rms > threshold) {
+      this.voiced++;
+      this.hangover = HANGOVER_FRAMES;
+    } else {
+      this.voiced = 0;
+      if (this.hangover > 0) this.hangover--;
+    }
+    this.speaking = this.speaking ? this.hangover > 0 : this.voiced >= ONSET_FRAMES;
+    if (!this.speaking) this.noise += (rms - this.noise) * 0.05;
+
+    const { mode, muted, talking } = this.controls;
+    const open = !muted && (mode === 'push-to-talk' ? talking : this.speaking);
+    if (open && !this.open) {
+      this.pending = this.preroll;
+      this.preroll = [];
+    }
+    if (open) {
+      this.pending.push(frame);
+      if (this.pending.length >= CHUNK_FRAMES) this.flush();
+    } else {
+      if (this.open) {
+        this.flush();
+        this.port.postMessage({ type: 'end' });
+      }
+      this.preroll.push(frame);
+      if (this.preroll.length > PREROLL_FRAMES) this.preroll.shift();
+    }
+    this.open = open;
+
+    this.levelPeak = Math.max(this.levelPeak, rms);
+    if (++this.levelFrames >= LEVEL_FRAMES) {
+      this.port.postMessage({ type: 'level', level: this.levelPeak, speaking: this.speaking });
+      this.levelPeak = 0;
+      this.levelFrames = 0;
+    }
+  }
+
+  flush() {
+    if (!this.pending.length) return;
+    const chunk = new Int16Array(this.pending.length * FRAME);
+    this.pending.forEach((f, i) => chunk.set(f, i * FRAME));
+    this.pending = [];
+    this.port.postMessage({ type: 'audio', pcm: chunk.buffer }, [chunk.buffer]);
+  }
+}
+
+registerProcessor('live-capture', CaptureProcessor);
+`;
+
+let moduleUrl: string | null = null;
+
+/**
+ * Starts capturing `stream` on `ctx`. The context may run at any rate:
+ * browsers often ignore a requested 16 kHz, and Firefox refuses to
+ * connect a microphone to a context that is not at the device rate.
+ */
+export async function startCapture(
+  ctx: AudioContext,
+  stream: MediaStream,
+  controls: CaptureControls,
+  onEvent: (event: CaptureEvent) => void
+): Promise<AudioCapture> {
+  moduleUrl ??= URL.createObjectURL(new Blob([PROCESSOR_SOURCE], { type: 'text/javascript' }));
+  await ctx.audioWorklet.addModule(moduleUrl);
+
+  const source = ctx.createMediaStreamSource(stream);
+  const node = new AudioWorkletNode(ctx, 'live-capture', {
+    numberOfInputs: 1,
+    numberOfOutputs: 0,
+    channelCount: 1,
+    channelCountMode: 'explicit',
+    processorOptions: controls,
+  });
+  node.port.onmessage = (e: MessageEvent<CaptureEvent>) => onEvent(e.data);
+  source.connect(node);
+
+  return {
+    update: (patch) => node.port.postMessage(patch),
+    stop: () => {
+      node.port.onmessage = null;
+      node.port.close();
+      source.disconnect();
+    },
+  };
+}
@@ -0,0 +1,48 @@
+import { Message, MessageBranch } from "../types";
+
+/**
+ * Branch Service: pure helpers for keeping alternative variants of a
+ * message, each with the conversation tail that followed it.
+ */
+
+function toBranch(message: Message, tail: Message[]): MessageBranch {
+  const { id, role, branches, activeBranch, ...content } = message;
+  return { ...content, tail };
+}
+
+/** Returns the message with its current variant and tail written into `branches`. */
+function saveActiveBranch(messages: Message[], index: number): Message {
+  const message = messages[index];
+  const branches = message.branches ? [...message.branches] : [];
+  const active = message.activeBranch ?? 0;
+  branches[active] = toBranch(message, messages.slice(index + 1));
+  return { ...message, branches, activeBranch: active };
+}
+
+export function branchCount(message: Message): number {
+  return message.branches?.length || 1;
+}
+
+/** Makes `branchIndex` the active variant of messages[index], restoring its tail. */
+export function switchBranch(messages: Message[], index: number, branchIndex: number): Message[] {
+  const saved = saveActiveBranch(messages, index);
+  const target = saved.branches![branchIndex];
+  if (!target || branchIndex === saved.activeBranch) return messages;
+  const { tail, ...content } = target;
+  const message: Message = { id: saved.id, role: saved.role, ...content, branches: saved.branches, activeBranch: branchIndex };
+  return [...messages.slice(0, index), message, ...tail];
+}
+
+/**
+ * Adds a new variant to messages[index] holding `content` and makes it active.
+ * Everything after the message is preserved in the previous variant.
+ */
+export function startBranch(messages: Message[], index: number, content: Omit<Message, 'id' | 'role'>): Message[] {
+  const saved = saveActiveBranch(messages, index);
+  const branches = saved.branches!;
+  const message: Message = { id: saved.id, role: saved.role, ...content };
+  return [
+    ...messages.slice(0, index),
+    { ...message, branches: [...branches, toBranch(message, [])], activeBranch: branches.length },
+  ];
+}
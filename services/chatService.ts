@@ -0,0 +1,87 @@
+import { ChatProvider, ChatStreamConfig, ChatStreamChunk, Message, ProviderId } from "../types";
+import { geminiProvider } from "./geminiService";
+import { createOpenAICompatibleProvider, DEFAULT_OPENAI_CONFIG, OpenAICompatibleConfig } from "./openAICompatibleService";
+import { mockProvider } from "./mockService";
+import { LiveTransport, createGeminiLiveTransport } from "./liveService";
+import { createMockLiveTransport, mockLiveScenario, MOCK_LIVE_SCENARIOS, MockLiveScenarioId } from "./mockLiveService";
+
+/**
+ * Provider registry. The UI calls the functions exported here and never
+ * a backend directly, so switching backends is a settings change.
+ */
+
+const SETTINGS_KEY = 'ultra_chat_provider_v1';
+
+export interface ProviderSettings {
+  activeId: ProviderId;
+  openai: OpenAICompatibleConfig;
+  mockLive: MockLiveScenarioId; // how the offline Live Mode transport fails, if at all
+}
+
+export const PROVIDER_OPTIONS: { id: ProviderId; label: string }[] = [
+  { id: 'gemini', label: geminiProvider.label },
+  { id: 'openai', label: 'Local OpenAI-compatible' },
+  { id: 'mock', label: mockProvider.label },
+];
+
+function loadSettings(): ProviderSettings {
+  const defaults: ProviderSettings = { activeId: 'gemini', openai: DEFAULT_OPENAI_CONFIG, mockLive: 'normal' };
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    if (!saved) return defaults;
+    const parsed = JSON.parse(saved);
+    return {
+      activeId: parsed.activeId || defaults.activeId,
+      openai: { ...defaults.openai, ...parsed.openai },
+      mockLive: MOCK_LIVE_SCENARIOS.some(s => s.id === parsed.mockLive) ? parsed.mockLive : defaults.mockLive,
+    };
+  } catch (e) {
+    return defaults;
+  }
+}
+
+let settings = loadSettings();
+let activeProvider = resolveProvider(settings);
+
+function resolveProvider(s: ProviderSettings): ChatProvider {
+  switch (s.activeId) {
+    case 'openai': return createOpenAICompatibleProvider(s.openai);
+    case 'mock': return mockProvider;
+    default: return geminiProvider;
+  }
+}
+
+export function getProviderSettings(): ProviderSettings {
+  return settings;
+}
+
+export function updateProviderSettings(next: ProviderSettings) {
+  settings = next;
+  activeProvider = resolveProvider(next);
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(next));
+}
+
+export function getActiveProvider(): ChatProvider {
+  return activeProvider;
+}
+
+/** Live Mode follows the provider: the mock gets an offline transport, every other provider streams from Gemini. */
+export function createLiveTransport(): LiveTransport {
+  return settings.activeId === 'mock' ? createMockLiveTransport(mockLiveScenario(settings.mockLive)) : createGeminiLiveTransport();
+}
+
+export function sendMessageStream(chatHistory: Message[], currentMessage: string, config: ChatStreamConfig): AsyncGenerator<ChatStreamChunk> {
+  return activeProvider.sendMessageStream(chatHistory, currentMessage, config);
+}
+
+export const resolveModel = (config: ChatStreamConfig) => activeProvider.resolveModel(config);
+export const generateImage = (prompt: string, signal?: AbortSignal, sessionId?: string) => activeProvider.generateImage(prompt, signal, sessionId);
+export const generateVideo = (prompt: string, signal?: AbortSignal, sessionId?: string) => activeProvider.generateVideo(prompt, signal, sessionId);
+export const synthesizeSpeech = (text: string, signal?: AbortSignal, sessionId?: string) => activeProvider.synthesizeSpeech(text, signal, sessionId);
+export const generateSmartTitle = (history: Message[], signal?: AbortSignal, sessionId?: string) => activeProvider.generateSmartTitle(history, signal, sessionId);
+export const refinePrompt = (prompt: string, signal?: AbortSignal, sessionId?: string) => activeProvider.refinePrompt(prompt, signal, sessionId);
+export const classifyIntent = (text: string, signal?: AbortSignal, sessionId?: string) => activeProvider.classifyIntent(text, signal, sessionId);
+export const generateSuggestions = (history: Message[], signal?: AbortSignal, sessionId?: string) => activeProvider.generateSuggestions(history, signal, sessionId);
+export const summarizeConversation = (history: Message[], previousSummary?: string, signal?: AbortSignal, sessionId?: string) => activeProvider.summarizeConversation(history, previousSummary, signal, sessionId);
+export const analyzeSentiment = (text: string, signal?: AbortSignal, sessionId?: string) => activeProvider.analyzeSentiment(text, signal, sessionId);
+export const checkLogic = (question: string, answer: string, signal?: AbortSignal, sessionId?: string) => activeProvider.checkLogic(question, answer, signal, sessionId);
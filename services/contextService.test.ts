@@ -0,0 +1,182 @@
+import { describe, it, expect, vi } from 'vitest';
+import { conversationRecap, fitContext, refreshSummary } from './contextService';
+import { Attachment, Message, Role } from '../types';
+
+const message = (id: string, role: Role, text: string, extra: Partial<Message> = {}): Message => ({ id, role, text, timestamp: 0, ...extra });
+
+const TEN_TOKENS = 'x'.repeat(40);
+const IMAGE: Attachment = { name: 'photo.png', mimeType: 'image/png', data: '', url: '' }; // 258 tokens
+
+/** Three exchanges of ten-token messages, ids 1 to 6. */
+const exchanges = (): Message[] =>
+  [1, 2, 3, 4, 5, 6].map(i => message(String(i), i % 2 ? Role.USER : Role.MODEL, TEN_TOKENS));
+
+const ids = (messages: Message[]) => messages.map(m => m.id);
+
+describe('fitContext', () => {
+  it.each(['drop-oldest', 'drop-attachments', 'summarize'] as const)('keeps everything that fits exactly under %s', (strategy) => {
+    expect(fitContext(exchanges(), 60, strategy)).toEqual({ messages: exchanges(), tokens: 60, droppedMessages: 0, strippedAttachments: 0, summarized: false });
+  });
+
+  it('drops whole exchanges once a single token over', () => {
+    const fitted = fitContext(exchanges(), 59, 'drop-oldest');
+    expect(ids(fitted.messages)).toEqual(['3', '4', '5', '6']);
+    expect(fitted).toMatchObject({ tokens: 40, droppedMessages: 2 });
+  });
+
+  it('starts the kept history at a prompt', () => {
+    const fitted = fitContext(exchanges().slice(1), 100, 'drop-oldest');
+    expect(ids(fitted.messages)).toEqual(['3', '4', '5', '6']);
+    expect(fitted.droppedMessages).toBe(1);
+  });
+
+  it('keeps nothing when even the last exchange does not fit', () => {
+    expect(fitContext(exchanges(), 15, 'drop-oldest')).toMatchObject({ messages: [], tokens: 0, droppedMessages: 6 });
+  });
+
+  describe('drop-attachments', () => {
+    const withImage = () => {
+      const history = exchanges();
+      history[0] = { ...history[0], attachments: [IMAGE] };
+      return history;
+    };
+
+    it('strips the oldest attachments before dropping turns', () => {
+      const fitted = fitContext(withImage(), 100, 'drop-attachments');
+      expect(fitted.droppedMessages).toBe(0);
+      expect(fitted.strippedAttachments).toBe(1);
+      expect(fitted.messages[0].attachments).toBeUndefined();
+      expect(fitted.messages[0].text).toBe(`${TEN_TOKENS}\n\n[Attachment omitted: photo.png]`);
+      expect(fitted.tokens).toBeLessThanOrEqual(100);
+    });
+
+    it('leaves the stored history untouched', () => {
+      const history = withImage();
+      fitContext(history, 100, 'drop-attachments');
+      expect(history[0].attachments).toEqual([IMAGE]);
+    });
+
+    it('keeps attachments that fit', () => {
+      expect(fitContext(withImage(), 318, 'drop-attachments')).toMatchObject({ tokens: 318, strippedAttachments: 0, droppedMessages: 0 });
+    });
+
+    it('drops turns when stripping is not enough', () => {
+      const fitted = fitContext(withImage(), 30, 'drop-attachments');
+      expect(ids(fitted.messages)).toEqual(['5', '6']);
+      expect(fitted.strippedAttachments).toBe(1);
+    });
+
+    it('is not applied by drop-oldest', () => {
+      const fitted = fitContext(withImage(), 100, 'drop-oldest');
+      expect(fitted).toMatchObject({ strippedAttachments: 0, droppedMessages: 2 });
+    });
+  });
+
+  describe('summarize', () => {
+    const summary = { text: 'S', throughMessageId: '2' }; // the summary message costs ten tokens
+
+    it('replaces the summarized turns with the summary', () => {
+      const fitted = fitContext(exchanges(), 50, 'summarize', summary);
+      expect(fitted.messages[0]).toMatchObject({ role: Role.SYSTEM, text: 'Summary of the earlier conversation:\n\nS' });
+      expect(ids(fitted.messages.slice(1))).toEqual(['3', '4', '5', '6']);
+      expect(fitted).toMatchObject({ tokens: 50, droppedMessages: 0, summarized: true });
+    });
+
+    it('still drops turns when the summary and the rest do not fit', () => {
+      const fitted = fitContext(exchanges(), 49, 'summarize', summary);
+      expect(ids(fitted.messages.slice(1))).toEqual(['5', '6']);
+      expect(fitted).toMatchObject({ droppedMessages: 2, summarized: true });
+    });
+
+    it('ignores a summary whose last message is no longer in the history', () => {
+      const fitted = fitContext(exchanges(), 60, 'summarize', { text: 'S', throughMessageId: 'edited-away' });
+      expect(fitted).toMatchObject({ summarized: false, tokens: 60 });
+      expect(ids(fitted.messages)).toEqual(ids(exchanges()));
+    });
+
+    it('ignores the summary under other strategies', () => {
+      expect(fitContext(exchanges(), 60, 'drop-oldest', summary).summarized).toBe(false);
+    });
+  });
+});
+
+describe('refreshSummary', () => {
+  it('leaves a history that fits exactly alone', async () => {
+    const summarize = vi.fn();
+    expect(await refreshSummary(exchanges(), 60, undefined, summarize)).toBeUndefined();
+    expect(summarize).not.toHaveBeenCalled();
+  });
+
+  it('folds all but the most recent half of the budget into a summary', async () => {
+    const summarize = vi.fn().mockResolvedValue('  First two exchanges.  ');
+    expect(await refreshSummary(exchanges(), 50, undefined, summarize)).toEqual({ text: 'First two exchanges.', throughMessageId: '4' });
+    expect(summarize).toHaveBeenCalledWith(exchanges().slice(0, 4), undefined);
+  });
+
+  it('reuses a current summary and only summarizes the turns after it', async () => {
+    const current = { text: 'S', throughMessageId: '2' };
+    const summarize = vi.fn().mockResolvedValue('S plus exchange two.');
+    expect(await refreshSummary(exchanges(), 50, current, summarize)).toBe(current);
+    expect(summarize).not.toHaveBeenCalled();
+
+    expect(await refreshSummary(exchanges(), 49, current, summarize)).toEqual({ text: 'S plus exchange two.', throughMessageId: '4' });
+    expect(summarize).toHaveBeenCalledWith(exchanges().slice(2, 4), 'S');
+  });
+
+  it('starts over when the summary no longer matches the history', async () => {
+    const stale = { text: 'S', throughMessageId: 'edited-away' };
+    const summarize = vi.fn().mockResolvedValue('Fresh.');
+    expect(await refreshSummary(exchanges(), 60, stale, summarize)).toBeUndefined();
+    expect(await refreshSummary(exchanges(), 50, stale, summarize)).toEqual({ text: 'Fresh.', throughMessageId: '4' });
+    expect(summarize).toHaveBeenCalledWith(exchanges().slice(0, 4), undefined);
+  });
+
+  it('keeps the current summary when the model returns nothing', async () => {
+    const current = { text: 'S', throughMessageId: '2' };
+    expect(await refreshSummary(exchanges(), 49, current, vi.fn().mockResolvedValue('  '))).toBe(current);
+  });
+
+  it('summarizes every turn when even the latest reply is larger than the verbatim share', async () => {
+    const summarize = vi.fn().mockResolvedValue('Everything.');
+    const history = [message('1', Role.USER, TEN_TOKENS), message('2', Role.MODEL, 'y'.repeat(400))];
+    expect(await refreshSummary(history, 50, undefined, summarize)).toEqual({ text: 'Everything.', throughMessageId: '2' });
+    expect(summarize).toHaveBeenCalledWith(history, undefined);
+  });
+});
+
+describe('conversationRecap', () => {
+  it('keeps the summary when it ends at an error reply', () => {
+    const history = [
+      message('1', Role.USER, 'Old question'),
+      message('2', Role.MODEL, 'Request failed', { isError: true }),
+      message('3', Role.USER, 'New question'),
+      message('4', Role.MODEL, 'New answer'),
+    ];
+    expect(conversationRecap(history, 1000, { text: 'They asked an old question.', throughMessageId: '2' })).toBe(
+      'Summary of the earlier conversation:\n\nThey asked an old question.\n\nUser: New question\n\nAssistant: New answer'
+    );
+  });
+
+  it('keeps the summary when it ends at an empty reply', () => {
+    const history = [message('1', Role.USER, 'Draw a cat'), message('2', Role.MODEL, '', { generatedImage: 'blob:x' }), message('3', Role.USER, 'Thanks')];
+    expect(conversationRecap(history, 1000, { text: 'A cat was drawn.', throughMessageId: '2' })).toBe(
+      'Summary of the earlier conversation:\n\nA cat was drawn.\n\nUser: Thanks'
+    );
+  });
+
+  it('keeps the most recent turns that fit, starting at a prompt', () => {
+    const history = [
+      message('1', Role.USER, 'a'.repeat(400)),
+      message('2', Role.MODEL, 'b'.repeat(400)),
+      message('3', Role.USER, 'Short'),
+      message('4', Role.MODEL, 'c'.repeat(40)),
+    ];
+    expect(conversationRecap(history, 120)).toBe(`User: Short\n\nAssistant: ${'c'.repeat(40)}`);
+  });
+
+  it('leaves attachments out of the count', () => {
+    const attachment = { name: 'big.pdf', mimeType: 'application/pdf', data: 'A'.repeat(100000), url: '' };
+    const history = [message('1', Role.USER, 'Read this', { attachments: [attachment] }), message('2', Role.MODEL, 'Done')];
+    expect(conversationRecap(history, 50)).toBe('User: Read this\n\nAssistant: Done');
+  });
+});
@@ -0,0 +1,205 @@
+import { Message, Role, Attachment, ContextStrategy, ContextSummary } from "../types";
+
+/**
+ * Context Service: token estimates and the trimming that keeps a
+ * conversation's history inside the active model's context budget.
+ */
+
+const BUDGETS_KEY = 'ultra_chat_context_budgets_v1';
+
+export const CONTEXT_STRATEGY_OPTIONS: { id: ContextStrategy; label: string; description: string }[] = [
+  { id: 'drop-attachments', label: 'Drop old attachments', description: 'Strip files from the oldest turns first, then drop turns' },
+  { id: 'drop-oldest', label: 'Drop oldest turns', description: 'Forget the oldest turns outright' },
+  { id: 'summarize', label: 'Summarize', description: 'Fold older turns into a running summary (one extra request)' },
+];
+
+export const DEFAULT_CONTEXT_STRATEGY: ContextStrategy = 'drop-attachments';
+
+// Far below Gemini's real window: every turn resends the whole history and is billed for it.
+const GEMINI_BUDGET = 131072;
+const MOCK_BUDGET = 4096;
+const FALLBACK_BUDGET = 8192; // local servers often run with small windows
+export const MIN_CONTEXT_BUDGET = 1024;
+
+const CHARS_PER_TOKEN = 4;
+const IMAGE_TOKENS = 258; // Gemini bills each image as a fixed tile
+const SUMMARY_SHARE = 0.5; // of the budget kept verbatim once older turns are summarized
+export const LIVE_RECAP_BUDGET = 4096; // Live Mode takes no history, so earlier turns ride in its system instruction
+
+export function loadContextBudgets(): Record<string, number> {
+  try {
+    const saved = localStorage.getItem(BUDGETS_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (e) {
+    console.error(e);
+    return {};
+  }
+}
+
+export function saveContextBudgets(budgets: Record<string, number>) {
+  localStorage.setItem(BUDGETS_KEY, JSON.stringify(budgets));
+}
+
+export function defaultContextBudget(model: string): number {
+  if (model.startsWith('gemini-')) return GEMINI_BUDGET;
+  return model === 'mock' ? MOCK_BUDGET : FALLBACK_BUDGET;
+}
+
+export function contextBudget(model: string, budgets: Record<string, number>): number {
+  return budgets[model] ?? defaultContextBudget(model);
+}
+
+/** Rough count: no tokenizer ships to the browser, so text is costed at four characters a token. */
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN);
+}
+
+export function formatTokens(tokens: number): string {
+  if (tokens < 1000) return String(tokens);
+  return tokens < 100000 ? `${(tokens / 1000).toFixed(1)}k` : `${Math.round(tokens / 1000)}k`;
+}
+
+export function attachmentTokens(attachment: Attachment): number {
+  if (attachment.mimeType.startsWith('image/')) return IMAGE_TOKENS;
+  return Math.ceil((attachment.data.length * 3) / 4 / CHARS_PER_TOKEN);
+}
+
+// Messages are replaced rather than mutated, so a count per message object stays valid until it changes.
+const tokenCache = new WeakMap<Message, number>();
+
+export function messageTokens(message: Message): number {
+  const cached = tokenCache.get(message);
+  if (cached !== undefined) return cached;
+  const tokens = estimateTokens(message.text) + (message.attachments || []).reduce((sum, a) => sum + attachmentTokens(a), 0);
+  tokenCache.set(message, tokens);
+  return tokens;
+}
+
+const totalTokens = (messages: Message[]) => messages.reduce((sum, m) => sum + messageTokens(m), 0);
+
+/** Tokens a turn costs before any history: the system instruction and the new prompt. */
+export function promptTokens(systemInstruction: string, text: string, attachments: Attachment[] = []): number {
+  return estimateTokens(systemInstruction) + estimateTokens(text) + attachments.reduce((sum, a) => sum + attachmentTokens(a), 0);
+}
+
+export const SUMMARY_PROMPT = (messages: Message[], previousSummary?: string) => {
+  const transcript = messages
+    .filter(m => m.text.trim() && !m.isError)
+    .map(m => `${m.role === Role.USER ? 'User' : 'Assistant'}: ${m.text}`)
+    .join('\n\n');
+  const previous = previousSummary ? `Summary so far:\n${previousSummary}\n\n` : '';
+  return `Update the running summary of a conversation so it can replace the turns below. Keep facts, decisions, names, numbers, code identifiers and open questions; drop pleasantries. Write at most 200 words in plain prose.\n\n${previous}New turns:\n${transcript}`;
+};
+
+/** Index just past the summarized messages, or -1 when the summary no longer matches this history. */
+function summaryEnd(history: Message[], summary?: ContextSummary): number {
+  if (!summary) return -1;
+  const index = history.findIndex(m => m.id === summary.throughMessageId);
+  return index < 0 ? -1 : index + 1;
+}
+
+function summaryMessage(summary: ContextSummary): Message {
+  return {
+    id: `summary-${summary.throughMessageId}`,
+    role: Role.SYSTEM,
+    text: `Summary of the earlier conversation:\n\n${summary.text}`,
+    timestamp: 0,
+  };
+}
+
+function stripAttachments(message: Message): Message {
+  const names = message.attachments!.map(a => a.name).join(', ');
+  return { ...message, attachments: undefined, text: `${message.text}\n\n[Attachment omitted: ${names}]` };
+}
+
+export interface FittedContext {
+  messages: Message[];
+  tokens: number;
+  droppedMessages: number;
+  strippedAttachments: number;
+  summarized: boolean;
+}
+
+/** Trims `history` to `budget` tokens with `strategy`. Never splits a turn: the kept history starts at a prompt. */
+export function fitContext(history: Message[], budget: number, strategy: ContextStrategy, summary?: ContextSummary): FittedContext {
+  const end = strategy === 'summarize' ? summaryEnd(history, summary) : -1;
+  const summarized = end > 0;
+  const head = summarized ? [summaryMessage(summary!)] : [];
+  let messages = summarized ? history.slice(end) : history;
+  let tokens = totalTokens(head) + totalTokens(messages);
+
+  let strippedAttachments = 0;
+  if (strategy === 'drop-attachments' && tokens > budget) {
+    messages = [...messages];
+    for (let i = 0; i < messages.length && tokens > budget; i++) {
+      if (!messages[i].attachments?.length) continue;
+      const stripped = stripAttachments(messages[i]);
+      tokens += messageTokens(stripped) - messageTokens(messages[i]);
+      strippedAttachments += messages[i].attachments!.length;
+      messages[i] = stripped;
+    }
+  }
+
+  let start = 0;
+  while (start < messages.length && (tokens > budget || messages[start].role !== Role.USER)) {
+    tokens -= messageTokens(messages[start]);
+    start++;
+  }
+
+  return {
+    messages: [...head, ...messages.slice(start)],
+    tokens,
+    droppedMessages: start,
+    strippedAttachments,
+    summarized,
+  };
+}
+
+/**
+ * Brings the running summary up to date when `history` no longer fits:
+ * turns older than the most recent half of the budget are folded into
+ * it, reusing the previous summary so each turn is summarized once.
+ */
+export async function refreshSummary(
+  history: Message[],
+  budget: number,
+  summary: ContextSummary | undefined,
+  summarize: (messages: Message[], previousSummary?: string) => Promise<string>
+): Promise<ContextSummary | undefined> {
+  const end = summaryEnd(history, summary);
+  const current = end > 0 ? summary : undefined;
+  const unsummarized = history.slice(Math.max(end, 0));
+  const currentTokens = (current ? messageTokens(summaryMessage(current)) : 0) + totalTokens(unsummarized);
+  if (currentTokens <= budget) return current;
+
+  let keepFrom = history.length;
+  let kept = 0;
+  while (keepFrom > 0 && kept + messageTokens(history[keepFrom - 1]) <= budget * SUMMARY_SHARE) {
+    kept += messageTokens(history[--keepFrom]);
+  }
+  while (keepFrom < history.length && history[keepFrom].role !== Role.USER) keepFrom++;
+  if (keepFrom <= Math.max(end, 0)) return current;
+
+  const text = await summarize(history.slice(Math.max(end, 0), keepFrom), current?.text);
+  return text.trim() ? { text: text.trim(), throughMessageId: history[keepFrom - 1].id } : current;
+}
+
+/**
+ * Plain-text recap of a conversation for backends that take no history,
+ * such as Live Mode: the running summary, when there is one, plus as many
+ * recent turns as fit in `budget`. Attachments are left out.
+ */
+export function conversationRecap(history: Message[], budget: number, summary?: ContextSummary): string {
+  // Located in the full history: the summary may end at an error or empty message the recap leaves out.
+  const end = summaryEnd(history, summary);
+  const head = end > 0 ? [summaryMessage(summary!).text] : [];
+  const turns = history.slice(Math.max(end, 0)).filter(m => m.text.trim() && !m.isError);
+  let tokens = head.reduce((sum, text) => sum + estimateTokens(text), 0);
+  let start = turns.length;
+  while (start > 0 && tokens + estimateTokens(turns[start - 1].text) <= budget) tokens += estimateTokens(turns[--start].text);
+  while (start < turns.length && turns[start].role !== Role.USER) start++;
+  return [
+    ...head,
+    ...turns.slice(start).map(m => m.role === Role.SYSTEM ? m.text : `${m.role === Role.USER ? 'User' : 'Assistant'}: ${m.text}`),
+  ].join('\n\n');
+}
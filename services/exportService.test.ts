@@ -0,0 +1,77 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest';
+import { exportHTML, exportJSON, importJSON } from './exportService';
+import { ChatSession, Message, Persona, Role } from '../types';
+
+const message = (id: string, extra: Partial<Message> = {}): Message => ({ id, role: Role.USER, text: 'Hi', timestamp: 0, ...extra });
+const session = (messages: Message[], extra: Partial<ChatSession> = {}): ChatSession => ({ id: 's1', title: 'Chat', messages, updatedAt: 0, ...extra });
+const bundle = (sessions: unknown[], personas: unknown[] = []) => JSON.stringify({ format: 'ultra-chat-export', version: 1, exportedAt: 0, sessions, personas });
+
+describe('exportHTML', () => {
+  it('labels live turns and escapes session text', async () => {
+    const html = await exportHTML([session([message('m1', { live: 'vision' })], { title: '<img src=x onerror=alert(1)>' })], []);
+    expect(html).toContain('User (live vision)');
+    expect(html).not.toContain('<img src=x');
+    expect(html).toContain('&lt;img src=x onerror=alert(1)&gt;');
+  });
+});
+
+describe('importJSON', () => {
+  it('round-trips an export', async () => {
+    const json = await exportJSON([session([message('m1')])], []);
+    expect(importJSON(json, []).sessions[0].messages[0].text).toBe('Hi');
+  });
+
+  it('accepts branches, live turns and attachments', async () => {
+    const reply = message('m2', { role: Role.MODEL, text: 'B', live: 'voice', branches: [
+      { text: 'A', timestamp: 1, tail: [message('m3')] },
+      { text: 'B', timestamp: 2, tail: [], attachments: [{ name: 'a.png', mimeType: 'image/png', data: 'AAAA', url: '' }] },
+    ], activeBranch: 1 });
+    const json = await exportJSON([session([message('m1'), reply])], []);
+    expect(importJSON(json, []).sessions[0].messages[1].branches).toHaveLength(2);
+  });
+
+  it.each([
+    ['a branch without a tail', { branches: [{ text: 'Other', timestamp: 0 }] }],
+    ['a branch tail holding a non-message', { branches: [{ text: 'Other', timestamp: 0, tail: [{ text: 'no id', timestamp: 0 }] }] }],
+    ['attachments that are not a list', { attachments: 'file.png' }],
+    ['an attachment without data', { attachments: [{ name: 'a.png', mimeType: 'image/png' }] }],
+    ['a branch attachment without a name', { branches: [{ text: 'Other', timestamp: 0, tail: [], attachments: [{ mimeType: 'image/png', data: '' }] }] }],
+    ['a branch without a timestamp', { branches: [{ text: 'Other', tail: [] }] }],
+    ['a message without a timestamp', { timestamp: undefined }],
+    ['a message with a text timestamp', { timestamp: '2024-01-01' }],
+    ['an unknown live mode', { live: '<img src=x onerror=alert(1)>' }],
+  ])('rejects a session with %s', (_, extra) => {
+    expect(() => importJSON(bundle([{ ...session([]), messages: [{ ...message('m1'), ...extra }] }]), [])).toThrow(/no sessions/);
+  });
+
+  it.each([
+    ['no updatedAt', undefined],
+    ['a text updatedAt', 'yesterday'],
+    ['a NaN updatedAt', NaN],
+  ])('rejects a session with %s', (_, updatedAt) => {
+    expect(() => importJSON(bundle([{ ...session([message('m1')]), updatedAt }]), [])).toThrow(/no sessions/);
+  });
+
+  it('drops malformed personas and clamps the temperature', () => {
+    const valid = { id: 'p1', name: 'Reviewer', systemInstruction: 'Be strict.', temperature: 5 };
+    const result = importJSON(bundle([session([message('m1')])], [
+      valid,
+      { ...valid, id: 'p2', name: '' },
+      { ...valid, id: 'p3', name: undefined },
+      { ...valid, id: 'p4', temperature: 'hot' },
+      { ...valid, id: 'p5', temperature: null },
+      { ...valid, id: 'p6', model: 7 },
+    ]), []);
+    expect(result.personas).toEqual([{ ...valid, temperature: 2, builtIn: undefined }]);
+  });
+
+  it('reports a persona that differs from a local one with the same id and keeps the local one', async () => {
+    const local: Persona = { id: 'p1', name: 'Reviewer', systemInstruction: 'Be strict.', temperature: 0.2 };
+    const incoming: Persona = { ...local, name: 'Pirate', systemInstruction: 'Talk like a pirate.' };
+    const fresh: Persona = { id: 'p2', name: 'Editor', systemInstruction: 'Tighten prose.', temperature: 0.5 };
+    const result = importJSON(bundle([session([message('m1')])], [incoming, fresh, local]), [], [local]);
+    expect(result.personas).toEqual([{ ...fresh, builtIn: undefined }]);
+    expect(result.skippedPersonas.map(p => p.name)).toEqual(['Pirate']);
+  });
+});
@@ -0,0 +1,369 @@
+/**
+ * Export & Import: moves sessions between browsers as Markdown, HTML or a lossless JSON bundle
+ */
+
+import { Attachment, ChatSession, Message, Persona, Role } from '../types';
+import { Block, Inline, parseMarkdown, sanitizeUrl } from '../utils/markdown';
+import { encodeBase64 } from './geminiService';
+import { isBuiltInPersonaId } from './personaService';
+
+export type ExportFormat = 'markdown' | 'json' | 'html';
+
+const EXPORT_FORMAT_ID = 'ultra-chat-export';
+const EXPORT_VERSION = 1;
+
+export interface ExportBundle {
+  format: typeof EXPORT_FORMAT_ID;
+  version: number;
+  exportedAt: number;
+  sessions: ChatSession[];
+  personas: Persona[]; // custom personas the sessions refer to
+}
+
+export interface ImportResult {
+  sessions: ChatSession[];
+  personas: Persona[];
+  skippedPersonas: Persona[]; // differ from a local persona with the same id, which is kept
+}
+
+export const EXPORT_FORMAT_OPTIONS: { id: ExportFormat; label: string }[] = [
+  { id: 'markdown', label: 'MD' },
+  { id: 'json', label: 'JSON' },
+  { id: 'html', label: 'HTML' },
+];
+
+const FILE_TYPES: Record<ExportFormat, { extension: string; mimeType: string }> = {
+  markdown: { extension: 'md', mimeType: 'text/markdown' },
+  json: { extension: 'json', mimeType: 'application/json' },
+  html: { extension: 'html', mimeType: 'text/html' },
+};
+
+// ---------------------------------------------------------------------------
+// Media
+// ---------------------------------------------------------------------------
+
+/** Inlines a blob: URL as a data: URL so the export outlives this page. */
+async function inlineUrl(url: string | undefined): Promise<string | undefined> {
+  if (!url?.startsWith('blob:')) return url;
+  try {
+    const blob = await fetch(url).then(r => r.blob());
+    return `data:${blob.type || 'application/octet-stream'};base64,${encodeBase64(new Uint8Array(await blob.arrayBuffer()))}`;
+  } catch (e) {
+    console.warn('Media is no longer readable and was left out of the export', e);
+    return undefined;
+  }
+}
+
+const inlineAttachment = (a: Attachment): Attachment => ({ ...a, url: `data:${a.mimeType};base64,${a.data}` });
+
+async function inlineMessage(message: Message): Promise<Message> {
+  const [generatedImage, generatedVideo] = await Promise.all([inlineUrl(message.generatedImage), inlineUrl(message.generatedVideo)]);
+  const branches = message.branches && await Promise.all(message.branches.map(async branch => {
+    const [image, video, tail] = await Promise.all([
+      inlineUrl(branch.generatedImage),
+      inlineUrl(branch.generatedVideo),
+      Promise.all(branch.tail.map(inlineMessage)),
+    ]);
+    return { ...branch, attachments: branch.attachments?.map(inlineAttachment), generatedImage: image, generatedVideo: video, tail };
+  }));
+  return { ...message, attachments: message.attachments?.map(inlineAttachment), generatedImage, generatedVideo, branches };
+}
+
+async function inlineSession(session: ChatSession): Promise<ChatSession> {
+  return { ...session, messages: await Promise.all(session.messages.map(inlineMessage)) };
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+export async function exportJSON(sessions: ChatSession[], customPersonas: Persona[]): Promise<string> {
+  const personaIds = new Set(sessions.map(s => s.personaId).filter(Boolean));
+  const bundle: ExportBundle = {
+    format: EXPORT_FORMAT_ID,
+    version: EXPORT_VERSION,
+    exportedAt: Date.now(),
+    sessions: await Promise.all(sessions.map(inlineSession)),
+    personas: customPersonas.filter(p => personaIds.has(p.id)),
+  };
+  return JSON.stringify(bundle, null, 2);
+}
+
+const speaker = (message: Message) => `${message.role === Role.USER ? 'User' : 'Gemini'}${message.live ? ` (live ${message.live})` : ''}`;
+
+function sessionSettings(session: ChatSession, customPersonas: Persona[]): string[] {
+  const persona = session.personaId ? customPersonas.find(p => p.id === session.personaId)?.name || session.personaId : session.tone;
+  return [
+    persona && `Persona: ${persona}`,
+    session.groundingEnabled !== undefined && `Grounding: ${session.groundingEnabled ? 'on' : 'off'}`,
+    session.thinkingEnabled !== undefined && `Thinking: ${session.thinkingEnabled ? 'on' : 'off'}`,
+    session.folder && `Folder: ${session.folder}`,
+    session.tags?.length && `Tags: ${session.tags.map(t => `#${t}`).join(' ')}`,
+  ].filter((s): s is string => !!s);
+}
+
+/** Markdown export covers the active branch only; binary media stays in JSON/HTML exports. */
+export function exportMarkdown(sessions: ChatSession[], customPersonas: Persona[]): string {
+  return sessions.map(session => {
+    const lines = [`# ${session.title}`, '', `_Last updated ${new Date(session.updatedAt).toLocaleString()}_`];
+    const settings = sessionSettings(session, customPersonas);
+    if (settings.length) lines.push('', settings.map(s => `- ${s}`).join('\n'));
+    for (const message of session.messages) {
+      lines.push('', `## ${speaker(message)} · ${new Date(message.timestamp).toLocaleString()}`, '');
+      if (message.attachments?.length) lines.push(message.attachments.map(a => `📎 ${a.name}`).join('  \n'), '');
+      lines.push(message.isError ? `> ${message.text}` : message.text);
+      if (message.generatedImage) lines.push('', '_[Generated image]_');
+      if (message.generatedVideo) lines.push('', '_[Generated video]_');
+      if (message.isStopped) lines.push('', '_Generation stopped_');
+      if (message.sources?.length) {
+        lines.push('', '**Sources**', '', ...message.sources.map(s => `- [${s.title.replace(/[[\]]/g, '')}](${s.uri})`));
+      }
+    }
+    return lines.join('\n');
+  }).join('\n\n---\n\n') + '\n';
+}
+
+const escapeHtml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&#39;');
+
+function inlineToHtml(nodes: Inline[]): string {
+  return nodes.map(node => {
+    switch (node.type) {
+      case 'text': return escapeHtml(node.value);
+      case 'strong': return `<strong>${inlineToHtml(node.children)}</strong>`;
+      case 'em': return `<em>${inlineToHtml(node.children)}</em>`;
+      case 'del': return `<del>${inlineToHtml(node.children)}</del>`;
+      case 'code': return `<code>${escapeHtml(node.value)}</code>`;
+      case 'math': return `<code class="math">${escapeHtml(node.tex)}</code>`;
+      case 'break': return '<br>';
+      case 'link':
+        return node.href
+          ? `<a href="${escapeHtml(node.href)}" target="_blank" rel="noopener noreferrer">${inlineToHtml(node.children)}</a>`
+          : inlineToHtml(node.children);
+    }
+  }).join('');
+}
+
+function blocksToHtml(blocks: Block[]): string {
+  return blocks.map(block => {
+    switch (block.type) {
+      case 'heading': return `<h${block.level}>${inlineToHtml(block.children)}</h${block.level}>`;
+      case 'paragraph': return `<p>${inlineToHtml(block.children)}</p>`;
+      case 'code': return `<pre><code data-lang="${escapeHtml(block.lang)}">${escapeHtml(block.code)}</code></pre>`;
+      case 'math': return `<pre class="math">${escapeHtml(block.tex)}</pre>`;
+      case 'blockquote': return `<blockquote>${blocksToHtml(block.children)}</blockquote>`;
+      case 'list': {
+        const items = block.items.map(item => {
+          const box = item.checked === undefined ? '' : `<input type="checkbox" disabled${item.checked ? ' checked' : ''}> `;
+          return `<li>${box}${blocksToHtml(item.children)}</li>`;
+        }).join('');
+        return block.ordered ? `<ol start="${block.start}">${items}</ol>` : `<ul>${items}</ul>`;
+      }
+      case 'table': {
+        const cell = (tag: string, content: Inline[], c: number) => `<${tag} style="text-align:${block.align[c] || 'left'}">${inlineToHtml(content)}</${tag}>`;
+        const head = `<tr>${block.header.map((h, c) => cell('th', h, c)).join('')}</tr>`;
+        const rows = block.rows.map(row => `<tr>${row.map((d, c) => cell('td', d, c)).join('')}</tr>`).join('');
+        return `<table><thead>${head}</thead><tbody>${rows}</tbody></table>`;
+      }
+      case 'hr': return '<hr>';
+    }
+  }).join('\n');
+}
+
+const HTML_STYLE = `
+body{margin:0;background:#050607;color:#e2e8f0;font:15px/1.6 Inter,system-ui,sans-serif}
+main{max-width:860px;margin:0 auto;padding:48px 24px}
+h1.session{font-size:28px;letter-spacing:-.02em;margin:48px 0 4px}
+.meta{color:#71717a;font-size:12px;margin-bottom:24px}
+.msg{padding:20px 24px;border:1px solid rgba(255,255,255,.06);border-radius:24px;margin:16px 0;background:rgba(255,255,255,.02)}
+.msg.user{background:rgba(37,99,235,.08);border-color:rgba(59,130,246,.2)}
+.msg.error{border-color:rgba(239,68,68,.4)}
+.who{font-size:10px;font-weight:900;text-transform:uppercase;letter-spacing:.2em;color:#71717a;margin-bottom:8px}
+pre{background:rgba(0,0,0,.4);border:1px solid rgba(255,255,255,.1);border-radius:16px;padding:16px;overflow-x:auto}
+code{font-family:'Fira Code',monospace;font-size:13px}
+p code{background:rgba(255,255,255,.1);padding:2px 6px;border-radius:6px}
+a{color:#60a5fa}
+blockquote{border-left:2px solid rgba(59,130,246,.4);margin:0;padding-left:16px;color:#a1a1aa}
+table{border-collapse:collapse;width:100%}th,td{border-bottom:1px solid rgba(255,255,255,.08);padding:8px}
+img,video{max-width:100%;border-radius:16px;margin-top:12px}
+.sources,.attachments{font-size:12px;color:#a1a1aa;margin-top:12px}
+`;
+
+function messageToHtml(message: Message): string {
+  const classes = ['msg', message.role, message.isError ? 'error' : ''].filter(Boolean).join(' ');
+  const parts = [`<div class="who">${escapeHtml(speaker(message))} · ${escapeHtml(new Date(message.timestamp).toLocaleString())}</div>`];
+  if (message.attachments?.length) {
+    parts.push(`<div class="attachments">${message.attachments.map(a =>
+      a.mimeType.startsWith('image/') ? `<img src="${escapeHtml(a.url)}" alt="${escapeHtml(a.name)}">` : `📎 ${escapeHtml(a.name)}`).join(' ')}</div>`);
+  }
+  parts.push(blocksToHtml(parseMarkdown(message.text)));
+  if (message.generatedImage?.startsWith('data:')) parts.push(`<img src="${escapeHtml(message.generatedImage)}" alt="Generated image">`);
+  if (message.generatedVideo?.startsWith('data:')) parts.push(`<video src="${escapeHtml(message.generatedVideo)}" controls></video>`);
+  if (message.isStopped) parts.push('<p class="meta">Generation stopped</p>');
+  if (message.sources?.length) {
+    const links = message.sources.map(s => {
+      const href = sanitizeUrl(s.uri);
+      return `<li>${href ? `<a href="${escapeHtml(href)}" target="_blank" rel="noopener noreferrer">${escapeHtml(s.title)}</a>` : escapeHtml(s.title)}</li>`;
+    }).join('');
+    parts.push(`<div class="sources"><strong>Sources</strong><ul>${links}</ul></div>`);
+  }
+  return `<section class="${classes}">${parts.join('\n')}</section>`;
+}
+
+/** A single self-contained page: no scripts, media embedded as data: URLs. */
+export async function exportHTML(sessions: ChatSession[], customPersonas: Persona[]): Promise<string> {
+  const inlined = await Promise.all(sessions.map(inlineSession));
+  const body = inlined.map(session => {
+    const settings = sessionSettings(session, customPersonas);
+    const meta = [`Last updated ${new Date(session.updatedAt).toLocaleString()}`, ...settings].map(escapeHtml).join(' · ');
+    return `<h1 class="session">${escapeHtml(session.title)}</h1>\n<div class="meta">${meta}</div>\n${session.messages.map(messageToHtml).join('\n')}`;
+  }).join('\n<hr>\n');
+  const title = sessions.length === 1 ? sessions[0].title : 'Gemini Ultra sessions';
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="UTF-8">
+<meta name="viewport" content="width=device-width, initial-scale=1.0">
+<meta http-equiv="Content-Security-Policy" content="default-src 'none'; img-src data:; media-src data:; style-src 'unsafe-inline'">
+<title>${escapeHtml(title)}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body><main>
+${body}
+</main></body>
+</html>
+`;
+}
+
+export async function exportSessions(format: ExportFormat, sessions: ChatSession[], customPersonas: Persona[]): Promise<string> {
+  switch (format) {
+    case 'markdown': return exportMarkdown(sessions, customPersonas);
+    case 'json': return exportJSON(sessions, customPersonas);
+    case 'html': return exportHTML(sessions, customPersonas);
+  }
+}
+
+export function exportFileName(format: ExportFormat, sessions: ChatSession[]): string {
+  const base = sessions.length === 1
+    ? sessions[0].title.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-|-$/g, '') || 'session'
+    : `ultra-chat-${new Date().toISOString().slice(0, 10)}`;
+  return `${base}.${FILE_TYPES[format].extension}`;
+}
+
+export function downloadFile(content: string, fileName: string, format: ExportFormat) {
+  const url = URL.createObjectURL(new Blob([content], { type: FILE_TYPES[format].mimeType }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  document.body.appendChild(link);
+  link.click();
+  document.body.removeChild(link);
+  URL.revokeObjectURL(url);
+}
+
+// ---------------------------------------------------------------------------
+// Import
+// ---------------------------------------------------------------------------
+
+const isRecord = (value: unknown): value is Record<string, any> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isOptionalString = (value: unknown) => value === undefined || typeof value === 'string';
+const isTimestamp = (value: unknown) => typeof value === 'number' && Number.isFinite(value); // sorts and dates render NaN otherwise
+const LIVE_MODES: unknown[] = ['voice', 'vision'];
+
+function isAttachmentLike(value: unknown): boolean {
+  return isRecord(value) && typeof value.mimeType === 'string' && typeof value.data === 'string' && typeof value.name === 'string' && isOptionalString(value.url);
+}
+
+/** The media fields a message and each of its branches carry. */
+function hasMediaLike(value: Record<string, any>): boolean {
+  return (value.attachments === undefined || (Array.isArray(value.attachments) && value.attachments.every(isAttachmentLike)))
+    && isOptionalString(value.generatedImage) && isOptionalString(value.generatedVideo);
+}
+
+function isBranchLike(value: unknown): boolean {
+  return isRecord(value) && typeof value.text === 'string' && isTimestamp(value.timestamp) && hasMediaLike(value)
+    && Array.isArray(value.tail) && value.tail.every(isMessageLike);
+}
+
+function isMessageLike(value: unknown): value is Message {
+  return isRecord(value) && typeof value.id === 'string' && typeof value.text === 'string' && Object.values(Role).includes(value.role)
+    && isTimestamp(value.timestamp) && (value.live === undefined || LIVE_MODES.includes(value.live)) && hasMediaLike(value)
+    && (value.branches === undefined || (Array.isArray(value.branches) && value.branches.every(isBranchLike)));
+}
+
+function isSessionLike(value: unknown): value is ChatSession {
+  return isRecord(value) && typeof value.id === 'string' && typeof value.title === 'string' && isTimestamp(value.updatedAt)
+    && Array.isArray(value.messages) && value.messages.every(isMessageLike);
+}
+
+function isPersonaLike(value: unknown): value is Persona {
+  return isRecord(value) && typeof value.id === 'string' && typeof value.name === 'string' && value.name.trim() !== ''
+    && typeof value.systemInstruction === 'string' && typeof value.temperature === 'number' && Number.isFinite(value.temperature)
+    && isOptionalString(value.model);
+}
+
+function collectMessageIds(messages: Message[], into: Set<string>) {
+  for (const message of messages) {
+    into.add(message.id);
+    message.branches?.forEach(b => collectMessageIds(b.tail, into));
+  }
+}
+
+/** Gives every message whose id is already taken a fresh one; ids key stored records and media. */
+function reassignIds(messages: Message[], taken: Set<string>): Message[] {
+  return messages.map(message => {
+    const id = taken.has(message.id) ? crypto.randomUUID() : message.id;
+    taken.add(id);
+    const branches = message.branches?.map(b => ({ ...b, tail: reassignIds(b.tail, taken) }));
+    return { ...message, id, branches };
+  });
+}
+
+/**
+ * Parses an exported JSON bundle. Sessions and messages whose ids collide
+ * with `existing` (or with each other) get new ids, so importing the same
+ * file twice yields two copies rather than overwriting. Personas are
+ * referenced by id, so one colliding with a different local persona is
+ * skipped and reported instead.
+ */
+export function importJSON(json: string, existing: ChatSession[], existingPersonas: Persona[] = []): ImportResult {
+  let bundle: Partial<ExportBundle>;
+  try {
+    bundle = JSON.parse(json);
+  } catch (e) {
+    throw new Error('Import failed: the file is not valid JSON.');
+  }
+  if (bundle?.format !== EXPORT_FORMAT_ID || !Array.isArray(bundle.sessions)) {
+    throw new Error('Import failed: not a Gemini Ultra export file.');
+  }
+  if ((bundle.version ?? 0) > EXPORT_VERSION) {
+    throw new Error('Import failed: the file was exported by a newer version of the app.');
+  }
+  const valid = bundle.sessions.filter(isSessionLike);
+  if (valid.length === 0) throw new Error('Import failed: the file contains no sessions.');
+
+  const sessionIds = new Set(existing.map(s => s.id));
+  const messageIds = new Set<string>();
+  existing.forEach(s => collectMessageIds(s.messages, messageIds));
+
+  const sessions = valid.map(session => {
+    const id = sessionIds.has(session.id) ? crypto.randomUUID() : session.id;
+    sessionIds.add(id);
+    return { ...session, id, messages: reassignIds(session.messages, messageIds) };
+  });
+  const candidates = (Array.isArray(bundle.personas) ? bundle.personas : [])
+    .filter((p: unknown): p is Persona => isPersonaLike(p) && !isBuiltInPersonaId(p.id))
+    .map(p => ({ ...p, temperature: Math.min(2, Math.max(0, p.temperature)), builtIn: undefined }));
+  const personas: Persona[] = [];
+  const skippedPersonas: Persona[] = [];
+  for (const persona of candidates) {
+    const local = existingPersonas.find(p => p.id === persona.id);
+    if (!local) personas.push(persona);
+    else if (local.name !== persona.name || local.systemInstruction !== persona.systemInstruction || local.temperature !== persona.temperature || local.model !== persona.model) {
+      skippedPersonas.push(persona);
+    }
+  }
+  return { sessions, personas, skippedPersonas };
+}
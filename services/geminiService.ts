@@ -1,11 +1,20 @@
 
-import { GoogleGenAI, Type, Modality } from "@google/genai";
-import { Message, Role, Attachment, GeminiTone, GroundingSource } from "../types";
+import { GoogleGenAI, Type, Modality, GenerateContentParameters, GenerateContentResponse } from "@google/genai";
+import { Message, Role, GroundingSource, ChatProvider, ChatStreamConfig, ChatStreamChunk, GenerationMode, SentimentData, LogicCheck } from "../types";
+import { INTENT_PROMPT, toGenerationMode } from "./intentService";
+import { SUGGESTIONS_PROMPT, toSuggestions, MAX_SUGGESTIONS } from "./suggestionService";
+import { SUMMARY_PROMPT } from "./contextService";
+import { usageLedger, tokensFromMetadata, UsageKind, UsageMetadata } from "./usageService";
+import { SENTIMENT_PROMPT, LOGIC_CHECK_PROMPT, LOGIC_VERDICTS, toSentiment, toLogicCheck } from "./analysisService";
 
-const getAI = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+export const createGeminiClient = (apiKey: string = process.env.API_KEY || '') => new GoogleGenAI({ apiKey });
+
+const getAI = () => createGeminiClient();
 
 export const TEXT_MODEL = 'gemini-3-flash-preview';
 export const PRO_MODEL = 'gemini-3-pro-preview';
+export const DEFAULT_THINKING_BUDGET = 24576;
+export const MAX_THINKING_BUDGET = 32768;
 export const IMAGE_MODEL = 'gemini-2.5-flash-image';
 export const VIDEO_MODEL = 'veo-3.1-fast-generate-preview';
 export const TTS_MODEL = 'gemini-2.5-flash-preview-tts';
@@ -41,6 +50,42 @@ export function encodeBase64(bytes: Uint8Array): string {
   return btoa(binary);
 }
 
+/**
+ * Resolves after `ms`, or rejects with the signal's abort reason as soon as
+ * the signal fires so polling loops never outlive a cancelled request.
+ */
+function wait(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/** `generateContent` that records the call's token and media usage in the ledger, billed to `sessionId`. */
+async function trackedGenerate(operation: string, kind: UsageKind, sessionId: string | undefined, params: GenerateContentParameters): Promise<GenerateContentResponse> {
+  const startedAt = Date.now();
+  const response = await getAI().models.generateContent(params);
+  const images = response.candidates?.[0]?.content?.parts?.filter(p => p.inlineData?.mimeType?.startsWith('image/')).length;
+  usageLedger.record({
+    sessionId,
+    model: params.model,
+    kind,
+    operation,
+    latencyMs: Date.now() - startedAt,
+    ...tokensFromMetadata(response.usageMetadata),
+    images: images || undefined,
+  });
+  return response;
+}
+
 export async function decodePCM(
   data: Uint8Array,
   ctx: AudioContext,
@@ -59,18 +104,18 @@ export async function decodePCM(
   return buffer;
 }
 
+export const resolveModel = (config: ChatStreamConfig) =>
+  config.model || (config.thinking ? PRO_MODEL : config.persona?.model || TEXT_MODEL);
+
 export async function* sendMessageStream(
   chatHistory: Message[],
   currentMessage: string,
-  config: {
-    tone?: GeminiTone;
-    grounding?: boolean;
-    thinking?: boolean;
-    attachments?: Attachment[];
-  }
-) {
+  config: ChatStreamConfig
+): AsyncGenerator<ChatStreamChunk> {
   const ai = getAI();
-  const contents: any[] = chatHistory.map(msg => ({
+  // Gemini contents are user or model turns only, so system notes such as the context summary join the instruction.
+  const systemNotes = chatHistory.filter(msg => msg.role === Role.SYSTEM).map(msg => msg.text);
+  const contents: any[] = chatHistory.filter(msg => msg.role !== Role.SYSTEM).map(msg => ({
     role: msg.role === Role.USER ? 'user' : 'model',
     parts: [
       ...(msg.attachments || []).map(a => ({ 
@@ -90,30 +135,43 @@ export async function* sendMessageStream(
     ]
   });
 
-  const thinkingBudget = config.thinking ? 24576 : 0;
+  const thinkingBudget = config.thinking ? config.thinkingBudget ?? DEFAULT_THINKING_BUDGET : 0;
   const tools: any[] = [];
   if (config.grounding) {
     tools.push({ googleSearch: {} });
   }
 
+  const model = resolveModel(config);
+  const { sessionId } = config;
+  const startedAt = Date.now();
+  let usage: UsageMetadata | undefined;
   try {
+    const { persona } = config;
     const stream = await ai.models.generateContentStream({
-      model: config.thinking ? PRO_MODEL : TEXT_MODEL,
+      model,
       contents,
       config: {
-        systemInstruction: ULTRA_SYSTEM_INSTRUCTION,
+        systemInstruction: [persona?.systemInstruction || ULTRA_SYSTEM_INSTRUCTION, ...systemNotes].join('\n\n'),
         tools: tools.length > 0 ? tools : undefined,
-        thinkingConfig: thinkingBudget > 0 ? { thinkingBudget } : undefined,
-        temperature: 0.2,
+        thinkingConfig: thinkingBudget > 0 ? { thinkingBudget, includeThoughts: true } : undefined,
+        temperature: persona?.temperature ?? 0.2,
+        abortSignal: config.signal,
       },
     });
 
     let fullText = "";
+    let thoughts = "";
     const sourcesMap = new Map<string, GroundingSource>();
     for await (const chunk of stream) {
+      config.signal?.throwIfAborted();
+      if (chunk.usageMetadata) usage = chunk.usageMetadata;
       fullText += chunk.text || "";
       const candidates = chunk.candidates;
       if (candidates && candidates.length > 0) {
+        // `chunk.text` skips thought parts, so summaries are collected separately.
+        candidates[0].content?.parts?.forEach(part => {
+          if (part.thought && part.text) thoughts += part.text;
+        });
         const groundingMetadata = candidates[0].groundingMetadata;
         if (groundingMetadata && groundingMetadata.groundingChunks) {
           groundingMetadata.groundingChunks.forEach((gc: any) => {
@@ -123,83 +181,94 @@ export async function* sendMessageStream(
       }
       yield { 
         text: fullText, 
+        thoughts: thoughts || undefined,
         sources: sourcesMap.size > 0 ? Array.from(sourcesMap.values()) : undefined 
       };
     }
   } catch (error) {
+    if (config.signal?.aborted) throw config.signal.reason;
     console.error("Stream error:", error);
     throw error;
+  } finally {
+    // Stopped or failed streams report no usage, so they are logged as calls without tokens.
+    usageLedger.record({ sessionId, model, kind: 'chat', operation: 'sendMessageStream', latencyMs: Date.now() - startedAt, ...tokensFromMetadata(usage) });
   }
 }
 
-export async function generateImage(prompt: string): Promise<string> {
-  const ai = getAI();
+export async function generateImage(prompt: string, signal?: AbortSignal, sessionId?: string): Promise<string> {
   try {
-    const response = await ai.models.generateContent({
+    const response = await trackedGenerate('generateImage', 'image', sessionId, {
       model: IMAGE_MODEL,
       contents: [{ parts: [{ text: prompt }] }],
       config: {
-        imageConfig: { aspectRatio: "1:1" }
+        imageConfig: { aspectRatio: "1:1" },
+        abortSignal: signal,
       }
     });
     const part = response.candidates?.[0]?.content?.parts.find(p => p.inlineData);
     if (part?.inlineData) return `data:${part.inlineData.mimeType};base64,${part.inlineData.data}`;
     throw new Error("Neural visual synthesis failed to yield data.");
   } catch (error) {
+    if (signal?.aborted) throw signal.reason;
     console.error("Image generation error:", error);
     throw error;
   }
 }
 
-export async function generateVideo(prompt: string): Promise<string> {
+export async function generateVideo(prompt: string, signal?: AbortSignal, sessionId?: string): Promise<string> {
   const ai = getAI();
+  const startedAt = Date.now();
   try {
     let operation = await ai.models.generateVideos({
       model: VIDEO_MODEL,
       prompt,
-      config: { numberOfVideos: 1, resolution: '720p', aspectRatio: '16:9' }
+      config: { numberOfVideos: 1, resolution: '720p', aspectRatio: '16:9', abortSignal: signal }
     });
     while (!operation.done) {
-      await new Promise(resolve => setTimeout(resolve, 5000));
-      operation = await ai.operations.getVideosOperation({ operation: operation });
+      await wait(5000, signal);
+      operation = await ai.operations.getVideosOperation({ operation: operation, config: { abortSignal: signal } });
     }
+    const videos = operation.response?.generatedVideos?.length || 0;
+    usageLedger.record({ sessionId, model: VIDEO_MODEL, kind: 'video', operation: 'generateVideo', latencyMs: Date.now() - startedAt, inputTokens: 0, outputTokens: 0, videos });
     const link = operation.response?.generatedVideos?.[0]?.video?.uri;
     if (!link) throw new Error("Video synthesis failed.");
-    const response = await fetch(`${link}&key=${process.env.API_KEY}`);
+    const response = await fetch(`${link}&key=${process.env.API_KEY}`, { signal });
     const blob = await response.blob();
     return URL.createObjectURL(blob);
   } catch (error) {
+    if (signal?.aborted) throw signal.reason;
     console.error("Video generation error:", error);
     throw error;
   }
 }
 
-export async function synthesizeSpeech(text: string): Promise<Uint8Array> {
-  const ai = getAI();
+export async function synthesizeSpeech(text: string, signal?: AbortSignal, sessionId?: string): Promise<Uint8Array> {
   try {
-    const response = await ai.models.generateContent({
+    const response = await trackedGenerate('synthesizeSpeech', 'speech', sessionId, {
       model: TTS_MODEL,
       contents: [{ parts: [{ text }] }],
       config: {
         responseModalities: [Modality.AUDIO],
-        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } }
+        speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Kore' } } },
+        abortSignal: signal,
       },
     });
     const audioData = response.candidates?.[0]?.content?.parts?.[0]?.inlineData?.data;
     if (!audioData) throw new Error("Speech synthesis failed.");
     return decodeBase64(audioData);
   } catch (error) {
+    if (signal?.aborted) throw signal.reason;
     console.error("TTS error:", error);
     throw error;
   }
 }
 
-export async function refinePrompt(prompt: string): Promise<string> {
-  const ai = getAI();
+export async function refinePrompt(prompt: string, signal?: AbortSignal, sessionId?: string): Promise<string> {
   try {
-    const response = await ai.models.generateContent({
+    const response = await trackedGenerate('refinePrompt', 'utility', sessionId, {
       model: TEXT_MODEL,
       contents: `System Request: Optimize the following prompt for ultra-performance, ensuring clear technical context and concise parameters. Prompt: "${prompt}"`,
+      config: { abortSignal: signal },
     });
     return response.text?.trim() || prompt;
   } catch (error) {
@@ -207,15 +276,137 @@ export async function refinePrompt(prompt: string): Promise<string> {
   }
 }
 
-export async function generateSmartTitle(history: Message[]): Promise<string> {
-  const ai = getAI();
+export async function generateSmartTitle(history: Message[], signal?: AbortSignal, sessionId?: string): Promise<string> {
   try {
-    const response = await ai.models.generateContent({
+    const response = await trackedGenerate('generateSmartTitle', 'utility', sessionId, {
       model: TEXT_MODEL,
       contents: `Short, professional, 2-4 word title for this conversation log: ${history.map(m => m.text).join(" ").slice(0, 500)}`,
+      config: { abortSignal: signal },
     });
     return response.text?.replace(/["*]/g, '').trim() || "Interface Session";
   } catch (error) {
     return "Neural Log";
   }
 }
+
+export async function classifyIntent(text: string, signal?: AbortSignal, sessionId?: string): Promise<GenerationMode> {
+  try {
+    const response = await trackedGenerate('classifyIntent', 'utility', sessionId, {
+      model: TEXT_MODEL,
+      contents: INTENT_PROMPT(text),
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: { mode: { type: Type.STRING, enum: ['chat', 'image', 'video'] } },
+          required: ['mode'],
+        },
+        abortSignal: signal,
+      },
+    });
+    return toGenerationMode(JSON.parse(response.text || '{}').mode);
+  } catch (error) {
+    if (signal?.aborted) throw signal.reason;
+    return 'chat';
+  }
+}
+
+export async function generateSuggestions(history: Message[], signal?: AbortSignal, sessionId?: string): Promise<string[]> {
+  try {
+    const response = await trackedGenerate('generateSuggestions', 'utility', sessionId, {
+      model: TEXT_MODEL,
+      contents: SUGGESTIONS_PROMPT(history),
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            suggestions: { type: Type.ARRAY, items: { type: Type.STRING }, maxItems: String(MAX_SUGGESTIONS) },
+          },
+          required: ['suggestions'],
+        },
+        abortSignal: signal,
+      },
+    });
+    return toSuggestions(JSON.parse(response.text || '{}').suggestions);
+  } catch (error) {
+    if (signal?.aborted) throw signal.reason;
+    return [];
+  }
+}
+
+export async function summarizeConversation(history: Message[], previousSummary?: string, signal?: AbortSignal, sessionId?: string): Promise<string> {
+  const response = await trackedGenerate('summarizeConversation', 'utility', sessionId, {
+    model: TEXT_MODEL,
+    contents: SUMMARY_PROMPT(history, previousSummary),
+    config: { abortSignal: signal },
+  });
+  return response.text || '';
+}
+
+export async function analyzeSentiment(text: string, signal?: AbortSignal, sessionId?: string): Promise<SentimentData | undefined> {
+  try {
+    const response = await trackedGenerate('analyzeSentiment', 'utility', sessionId, {
+      model: TEXT_MODEL,
+      contents: SENTIMENT_PROMPT(text),
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            score: { type: Type.NUMBER, minimum: -1, maximum: 1 },
+            label: { type: Type.STRING },
+          },
+          required: ['score', 'label'],
+        },
+        abortSignal: signal,
+      },
+    });
+    return toSentiment(JSON.parse(response.text || '{}'));
+  } catch (error) {
+    if (signal?.aborted) throw signal.reason;
+    return undefined;
+  }
+}
+
+export async function checkLogic(question: string, answer: string, signal?: AbortSignal, sessionId?: string): Promise<LogicCheck | undefined> {
+  try {
+    const response = await trackedGenerate('checkLogic', 'utility', sessionId, {
+      model: TEXT_MODEL,
+      contents: LOGIC_CHECK_PROMPT(question, answer),
+      config: {
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: Type.OBJECT,
+          properties: {
+            verdict: { type: Type.STRING, enum: LOGIC_VERDICTS },
+            critique: { type: Type.STRING },
+          },
+          required: ['verdict', 'critique'],
+        },
+        abortSignal: signal,
+      },
+    });
+    return toLogicCheck(JSON.parse(response.text || '{}'));
+  } catch (error) {
+    if (signal?.aborted) throw signal.reason;
+    return undefined;
+  }
+}
+
+export const geminiProvider: ChatProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  sendMessageStream,
+  resolveModel,
+  generateImage,
+  generateVideo,
+  synthesizeSpeech,
+  generateSmartTitle,
+  refinePrompt,
+  classifyIntent,
+  generateSuggestions,
+  summarizeConversation,
+  analyzeSentiment,
+  checkLogic,
+};
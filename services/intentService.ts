@@ -0,0 +1,38 @@
+import { GenerationMode } from "../types";
+
+/**
+ * Intent Service: explicit routing of prompts to chat, image or video.
+ */
+
+export interface SlashCommand {
+  command: string;
+  mode: GenerationMode;
+  description: string;
+}
+
+export const SLASH_COMMANDS: SlashCommand[] = [
+  { command: '/chat', mode: 'chat', description: 'Send as a normal chat message' },
+  { command: '/image', mode: 'image', description: 'Generate an image from the prompt' },
+  { command: '/draw', mode: 'image', description: 'Alias of /image' },
+  { command: '/video', mode: 'video', description: 'Generate a short video clip (slow)' },
+];
+
+/** Splits a leading slash command off `text`. Returns null when there is none. */
+export function parseSlashCommand(text: string): { mode: GenerationMode; prompt: string } | null {
+  const match = text.match(/^\s*(\/[a-z]+)(?:\s+|$)([\s\S]*)$/i);
+  if (!match) return null;
+  const command = SLASH_COMMANDS.find(c => c.command === match[1].toLowerCase());
+  return command ? { mode: command.mode, prompt: match[2].trim() } : null;
+}
+
+export function matchingSlashCommands(text: string): SlashCommand[] {
+  if (!/^\/[a-z]*$/i.test(text)) return [];
+  return SLASH_COMMANDS.filter(c => c.command.startsWith(text.toLowerCase()));
+}
+
+export const INTENT_PROMPT = (text: string) =>
+  `Classify what the user wants produced. Answer "image" only if they explicitly ask to create, draw or render a picture; "video" only if they explicitly ask to create or animate a video clip; otherwise "chat" (questions about images, videos or file formats are "chat"). Message: "${text}"`;
+
+export function toGenerationMode(value: unknown): GenerationMode {
+  return value === 'image' || value === 'video' ? value : 'chat';
+}
@@ -0,0 +1,70 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { closeError, mediaError, networkError, playbackError, reconnectDelay, MAX_RECONNECT_ATTEMPTS } from './liveService';
+
+const offline = () => vi.spyOn(navigator, 'onLine', 'get').mockReturnValue(false);
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('mediaError', () => {
+  it.each([
+    ['NotAllowedError', 'permission-denied'],
+    ['SecurityError', 'permission-denied'],
+    ['NotReadableError', 'no-device'],
+    ['AbortError', 'no-device'],
+    ['NotFoundError', 'no-device'],
+    ['OverconstrainedError', 'no-device'],
+  ])('classifies %s as %s and does not retry', (name, kind) => {
+    const error = mediaError(new DOMException('denied', name));
+    expect(error.kind).toBe(kind);
+    expect(error.retryable).toBe(false);
+  });
+
+  it('keeps the message of an unknown failure', () => {
+    expect(mediaError(new Error('Worklet failed to load'))).toEqual({ kind: 'no-device', message: 'Worklet failed to load', retryable: false });
+  });
+});
+
+describe('networkError', () => {
+  it('is retryable and says when the browser is offline', () => {
+    expect(networkError()).toMatchObject({ kind: 'network', retryable: true, message: 'The connection to the Live API dropped.' });
+    offline();
+    expect(networkError().message).toBe('You are offline.');
+  });
+});
+
+describe('closeError', () => {
+  it('treats an abnormal close as a network drop', () => {
+    expect(closeError({ code: 1006, reason: '' }, false)).toMatchObject({ kind: 'network', retryable: true });
+  });
+
+  it('treats any close while offline as a network drop', () => {
+    offline();
+    expect(closeError({ code: 1008, reason: 'Policy violation' }, false).kind).toBe('network');
+  });
+
+  it.each([1001, 1011, 1013, 1014])('retries close code %i', (code) => {
+    expect(closeError({ code, reason: '' }, false)).toMatchObject({ kind: 'server-closed', retryable: true });
+  });
+
+  it('does not retry other codes unless the server announced the close', () => {
+    expect(closeError({ code: 1008, reason: 'Policy violation' }, false)).toEqual({ kind: 'server-closed', message: 'Policy violation', retryable: false });
+    expect(closeError({ code: 1000, reason: '' }, true)).toEqual({ kind: 'server-closed', message: 'The server closed the session (code 1000).', retryable: true });
+  });
+});
+
+describe('reconnectDelay', () => {
+  it('doubles from one second and caps at sixteen', () => {
+    expect(Array.from({ length: MAX_RECONNECT_ATTEMPTS + 2 }, (_, i) => reconnectDelay(i))).toEqual([1000, 2000, 4000, 8000, 16000, 16000, 16000]);
+  });
+});
+
+describe('playbackError', () => {
+  it('keeps the decoder message and reconnects', () => {
+    expect(playbackError(new DOMException('The AudioContext was closed.', 'InvalidStateError'))).toEqual({
+      kind: 'playback', message: 'The AudioContext was closed.', retryable: true,
+    });
+  });
+});
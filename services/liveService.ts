@@ -0,0 +1,128 @@
+import { LiveServerMessage, Modality } from '@google/genai';
+import { createGeminiClient } from './geminiService';
+import { CAPTURE_MIME_TYPE } from './audioCaptureService';
+
+/**
+ * Live Service: the transport under Live Mode, and the error
+ * classification and backoff the overlay reconnects with. The overlay
+ * only talks to a `LiveTransport`, so an offline one can stand in.
+ */
+
+export const LIVE_MODEL = 'gemini-2.5-flash-native-audio-preview-12-2025';
+export const MAX_RECONNECT_ATTEMPTS = 5;
+const BASE_RECONNECT_DELAY_MS = 1000;
+const MAX_RECONNECT_DELAY_MS = 16000;
+
+// WebSocket close codes worth retrying: going away, server error, try again later, bad gateway.
+const RETRYABLE_CLOSE_CODES = new Set([1001, 1011, 1013, 1014]);
+const ABNORMAL_CLOSE = 1006;
+
+export interface LiveConnectOptions {
+  systemInstruction: string;
+  temperature: number;
+  resumeHandle?: string; // from a previous `sessionResumptionUpdate`; the server restores that conversation
+}
+
+export interface LiveCloseInfo {
+  code: number;
+  reason: string;
+}
+
+/** Socket errors always end in `onClose`, so that is the only failure callback. */
+export interface LiveCallbacks {
+  onOpen: () => void;
+  onMessage: (message: LiveServerMessage) => void;
+  onClose: (info: LiveCloseInfo) => void;
+}
+
+export interface LiveConnection {
+  sendAudio: (data: string) => void; // base64 PCM at the capture rate
+  sendAudioStreamEnd: () => void;
+  sendFrame: (data: string) => void; // base64 JPEG
+  close: () => void;
+}
+
+export interface LiveTransport {
+  connect: (options: LiveConnectOptions, callbacks: LiveCallbacks) => Promise<LiveConnection>;
+}
+
+export type LiveErrorKind = 'permission-denied' | 'no-device' | 'network' | 'server-closed' | 'playback';
+
+export interface LiveError {
+  kind: LiveErrorKind;
+  message: string;
+  retryable: boolean; // reconnect automatically rather than wait for the user
+}
+
+export function createGeminiLiveTransport(apiKey?: string): LiveTransport {
+  return {
+    async connect(options, callbacks) {
+      const session = await createGeminiClient(apiKey).live.connect({
+        model: LIVE_MODEL,
+        config: {
+          responseModalities: [Modality.AUDIO],
+          speechConfig: { voiceConfig: { prebuiltVoiceConfig: { voiceName: 'Zephyr' } } },
+          inputAudioTranscription: {},
+          outputAudioTranscription: {},
+          systemInstruction: options.systemInstruction,
+          temperature: options.temperature,
+          sessionResumption: { handle: options.resumeHandle },
+        },
+        callbacks: {
+          onopen: callbacks.onOpen,
+          onmessage: callbacks.onMessage,
+          onclose: (e: CloseEvent) => callbacks.onClose({ code: e.code, reason: e.reason }),
+        },
+      });
+      return {
+        sendAudio: (data) => session.sendRealtimeInput({ media: { data, mimeType: CAPTURE_MIME_TYPE } }),
+        sendAudioStreamEnd: () => session.sendRealtimeInput({ audioStreamEnd: true }),
+        sendFrame: (data) => session.sendRealtimeInput({ media: { data, mimeType: 'image/jpeg' } }),
+        close: () => session.close(),
+      };
+    },
+  };
+}
+
+/** Classifies a `getUserMedia` failure. None of these clear up by retrying on a timer. */
+export function mediaError(err: unknown): LiveError {
+  const name = err instanceof DOMException ? err.name : '';
+  if (name === 'NotAllowedError' || name === 'SecurityError') {
+    return { kind: 'permission-denied', message: 'Microphone or camera access is blocked. Allow it in the site settings, then retry.', retryable: false };
+  }
+  if (name === 'NotReadableError' || name === 'AbortError') {
+    return { kind: 'no-device', message: 'The microphone or camera is in use by another app.', retryable: false };
+  }
+  if (name === 'NotFoundError' || name === 'OverconstrainedError') {
+    return { kind: 'no-device', message: 'No microphone or camera was found.', retryable: false };
+  }
+  return { kind: 'no-device', message: err instanceof Error ? err.message : 'The microphone could not be opened.', retryable: false };
+}
+
+export function networkError(): LiveError {
+  return {
+    kind: 'network',
+    message: navigator.onLine ? 'The connection to the Live API dropped.' : 'You are offline.',
+    retryable: true,
+  };
+}
+
+/** A reply's audio could not be decoded or scheduled; a fresh connection gets a fresh output context. */
+export function playbackError(err: unknown): LiveError {
+  return { kind: 'playback', message: err instanceof Error || err instanceof DOMException ? err.message : 'The reply could not be played.', retryable: true };
+}
+
+/** `goingAway` is set when the server announced the close, as it does before a session limit. */
+export function closeError(info: LiveCloseInfo, goingAway: boolean): LiveError {
+  if (info.code === ABNORMAL_CLOSE || !navigator.onLine) return networkError();
+  return {
+    kind: 'server-closed',
+    message: info.reason || `The server closed the session (code ${info.code}).`,
+    retryable: goingAway || RETRYABLE_CLOSE_CODES.has(info.code),
+  };
+}
+
+/** Exponential backoff: 1s, 2s, 4s, 8s, then 16s. */
+export function reconnectDelay(attempt: number): number {
+  return Math.min(BASE_RECONNECT_DELAY_MS * 2 ** attempt, MAX_RECONNECT_DELAY_MS);
+}
@@ -0,0 +1,132 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createMockLiveTransport, mockLiveScenario, MockLiveScenario } from './mockLiveService';
+import { closeError, LiveCloseInfo, LiveConnection, LiveTransport } from './liveService';
+
+interface Recorded {
+  opened: boolean;
+  messages: any[];
+  closes: LiveCloseInfo[];
+}
+
+async function open(transport: LiveTransport, resumeHandle?: string): Promise<{ connection: LiveConnection; log: Recorded }> {
+  const log: Recorded = { opened: false, messages: [], closes: [] };
+  const connection = await transport.connect({ systemInstruction: '', temperature: 1, resumeHandle }, {
+    onOpen: () => { log.opened = true; },
+    onMessage: (message) => log.messages.push(message),
+    onClose: (info) => log.closes.push(info),
+  });
+  await vi.advanceTimersByTimeAsync(50);
+  return { connection, log };
+}
+
+async function speak(connection: LiveConnection) {
+  connection.sendAudio('AAAA'.repeat(1000));
+  connection.sendAudioStreamEnd();
+  await vi.advanceTimersByTimeAsync(1500); // reply, then any scripted close
+}
+
+const replies = (log: Recorded) => log.messages.map(m => m.serverContent?.outputTranscription?.text).filter(Boolean);
+const latestHandle = (log: Recorded) => log.messages.filter(m => m.sessionResumptionUpdate).at(-1).sessionResumptionUpdate.newHandle;
+
+beforeEach(() => {
+  vi.useFakeTimers();
+});
+
+afterEach(() => {
+  vi.useRealTimers();
+});
+
+describe('createMockLiveTransport', () => {
+  it('opens, completes setup and issues a resumption handle', async () => {
+    const { log } = await open(createMockLiveTransport());
+    expect(log.opened).toBe(true);
+    expect(log.messages[0]).toEqual({ setupComplete: {} });
+    expect(log.messages[1].sessionResumptionUpdate).toMatchObject({ resumable: true });
+  });
+
+  it('answers an utterance only once it has ended', async () => {
+    const { connection, log } = await open(createMockLiveTransport());
+    connection.sendAudio('AAAA'.repeat(1000));
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(replies(log)).toEqual([]);
+    connection.sendAudioStreamEnd();
+    await vi.advanceTimersByTimeAsync(800);
+    expect(replies(log)).toEqual(['Mock live reply 1.']);
+    expect(log.messages.some(m => m.serverContent?.turnComplete)).toBe(true);
+  });
+
+  it('stops replying once closed by the client', async () => {
+    const { connection, log } = await open(createMockLiveTransport());
+    connection.sendAudio('AAAA');
+    connection.sendAudioStreamEnd();
+    connection.close();
+    await vi.advanceTimersByTimeAsync(2000);
+    expect(replies(log)).toEqual([]);
+    expect(log.closes).toEqual([{ code: 1000, reason: '' }]);
+  });
+
+  it('refuses to connect', async () => {
+    await expect(createMockLiveTransport({ refuseConnect: true }).connect({ systemInstruction: '', temperature: 1 }, {
+      onOpen: () => {}, onMessage: () => {}, onClose: () => {},
+    })).rejects.toThrow();
+  });
+
+  it('drops the connection after the given number of replies', async () => {
+    const { connection, log } = await open(createMockLiveTransport({ closeAfterTurns: 2 }));
+    await speak(connection);
+    expect(log.closes).toEqual([]);
+    await speak(connection);
+    expect(log.closes).toEqual([{ code: 1006, reason: '' }]);
+    expect(log.messages.some(m => m.goAway)).toBe(false);
+  });
+
+  it('announces the close first when going away', async () => {
+    const scenario: MockLiveScenario = { closeAfterTurns: 1, closeCode: 1000, closeReason: 'Session limit reached', goAway: true };
+    const { connection, log } = await open(createMockLiveTransport(scenario));
+    await speak(connection);
+    const goAwayAt = log.messages.findIndex(m => m.goAway);
+    expect(goAwayAt).toBeGreaterThan(-1);
+    expect(log.closes).toEqual([{ code: 1000, reason: 'Session limit reached' }]);
+  });
+
+  it('resumes the conversation behind a handle and keeps counting turns', async () => {
+    const transport = createMockLiveTransport({ closeAfterTurns: 3 });
+    const first = await open(transport);
+    await speak(first.connection);
+    await speak(first.connection);
+    const handle = latestHandle(first.log);
+    first.connection.close();
+
+    const second = await open(transport, handle);
+    await speak(second.connection);
+    expect(replies(second.log)).toEqual(['Mock live reply 3 (resumed).']);
+    expect(latestHandle(second.log)).toBe(handle);
+    expect(second.log.closes).toEqual([{ code: 1006, reason: '' }]);
+  });
+
+  it('starts a new conversation for an unknown handle', async () => {
+    const { connection, log } = await open(createMockLiveTransport(), 'expired');
+    expect(latestHandle(log)).not.toBe('expired');
+    await speak(connection);
+    expect(replies(log)).toEqual(['Mock live reply 1.']);
+  });
+});
+
+describe('mockLiveScenario', () => {
+  it('falls back to no failures for an unknown id', () => {
+    expect(mockLiveScenario(undefined)).toEqual({});
+  });
+
+  it.each([
+    ['drop', { kind: 'network', retryable: true }],
+    ['session-limit', { kind: 'server-closed', retryable: true }],
+    ['server-error', { kind: 'server-closed', retryable: false }],
+  ] as const)('closes the %s scenario with the error the overlay expects', async (id, expected) => {
+    const { connection, log } = await open(createMockLiveTransport(mockLiveScenario(id)));
+    await speak(connection);
+    await speak(connection);
+    const goingAway = log.messages.some(m => m.goAway);
+    expect(closeError(log.closes[0], goingAway)).toMatchObject(expected);
+  });
+});
@@ -0,0 +1,108 @@
+import { LiveServerMessage } from '@google/genai';
+import { LiveTransport } from './liveService';
+import { encodeBase64 } from './geminiService';
+import { CAPTURE_RATE } from './audioCaptureService';
+
+/**
+ * Offline Live Mode backend: answers each utterance with a canned
+ * transcript and a short tone, and issues resumption handles like the
+ * real server. A scenario makes it fail on cue so reconnects and error
+ * states can be exercised without a network.
+ */
+
+const REPLY_DELAY_MS = 400;
+const OUTPUT_RATE = 24000;
+
+export interface MockLiveScenario {
+  refuseConnect?: boolean; // connect() rejects, as when the socket cannot open
+  closeAfterTurns?: number; // close once this many replies have been sent in the conversation
+  closeCode?: number; // defaults to 1006, a dropped network
+  closeReason?: string;
+  goAway?: boolean; // announce the close first, as the server does before a session limit
+}
+
+export type MockLiveScenarioId = 'normal' | 'refuse' | 'drop' | 'session-limit' | 'server-error';
+
+/** Named scenarios offered in the provider settings. */
+export const MOCK_LIVE_SCENARIOS: { id: MockLiveScenarioId; label: string; scenario: MockLiveScenario }[] = [
+  { id: 'normal', label: 'Live: no failures', scenario: {} },
+  { id: 'refuse', label: 'Live: refuse to connect', scenario: { refuseConnect: true } },
+  { id: 'drop', label: 'Live: drop after 2 replies', scenario: { closeAfterTurns: 2 } },
+  { id: 'session-limit', label: 'Live: session limit after 2 replies', scenario: { closeAfterTurns: 2, closeCode: 1000, closeReason: 'Session limit reached', goAway: true } },
+  { id: 'server-error', label: 'Live: fatal close after 1 reply', scenario: { closeAfterTurns: 1, closeCode: 1008, closeReason: 'Policy violation' } },
+];
+
+export const mockLiveScenario = (id: MockLiveScenarioId | undefined): MockLiveScenario =>
+  MOCK_LIVE_SCENARIOS.find(s => s.id === id)?.scenario || {};
+
+function tone(seconds: number): string {
+  const samples = new Int16Array(Math.round(OUTPUT_RATE * seconds));
+  for (let i = 0; i < samples.length; i++) {
+    const fade = Math.min(1, i / 480, (samples.length - i) / 480);
+    samples[i] = Math.sin((2 * Math.PI * 440 * i) / OUTPUT_RATE) * 4000 * fade;
+  }
+  return encodeBase64(new Uint8Array(samples.buffer));
+}
+
+export function createMockLiveTransport(scenario: MockLiveScenario = {}): LiveTransport {
+  // Turns per resumption handle, shared across connections so a resumed session carries on counting.
+  const conversations = new Map<string, number>();
+
+  return {
+    async connect(options, callbacks) {
+      if (scenario.refuseConnect) throw new Error('Mock live transport refused the connection');
+
+      const conversationId = options.resumeHandle && conversations.has(options.resumeHandle) ? options.resumeHandle : crypto.randomUUID();
+      const resumed = conversationId === options.resumeHandle;
+      let turns = conversations.get(conversationId) || 0;
+      let audioBytes = 0;
+      let frames = 0;
+      let closed = false;
+      const timers = new Set<number>();
+
+      const later = (fn: () => void, ms = REPLY_DELAY_MS) => {
+        const timer = window.setTimeout(() => { timers.delete(timer); if (!closed) fn(); }, ms);
+        timers.add(timer);
+      };
+      const send = (message: object) => callbacks.onMessage(message as LiveServerMessage);
+      const close = (code: number, reason: string) => {
+        if (closed) return;
+        closed = true;
+        timers.forEach(t => window.clearTimeout(t));
+        callbacks.onClose({ code, reason });
+      };
+
+      const reply = () => {
+        const seconds = audioBytes / 2 / CAPTURE_RATE;
+        audioBytes = 0;
+        turns++;
+        conversations.set(conversationId, turns);
+        send({ serverContent: { inputTranscription: { text: `(${seconds.toFixed(1)}s of speech)` } } });
+        later(() => {
+          const seen = frames ? `, ${frames} frame${frames === 1 ? '' : 's'} seen` : '';
+          send({ serverContent: { outputTranscription: { text: `Mock live reply ${turns}${resumed ? ' (resumed)' : ''}${seen}.` } } });
+          send({ serverContent: { modelTurn: { parts: [{ inlineData: { data: tone(0.3), mimeType: `audio/pcm;rate=${OUTPUT_RATE}` } }] } } });
+          send({ serverContent: { turnComplete: true } });
+          send({ sessionResumptionUpdate: { newHandle: conversationId, resumable: true } });
+          if (scenario.closeAfterTurns === turns) {
+            if (scenario.goAway) send({ goAway: { timeLeft: '1s' } });
+            later(() => close(scenario.closeCode ?? 1006, scenario.closeReason ?? ''));
+          }
+        });
+      };
+
+      later(() => {
+        callbacks.onOpen();
+        send({ setupComplete: {} });
+        send({ sessionResumptionUpdate: { newHandle: conversationId, resumable: true } });
+      }, 50);
+
+      return {
+        sendAudio: (data) => { audioBytes += (data.length * 3) / 4; },
+        sendAudioStreamEnd: () => { if (audioBytes) later(reply); },
+        sendFrame: () => { frames++; },
+        close: () => close(1000, ''),
+      };
+    },
+  };
+}
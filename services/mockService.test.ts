@@ -0,0 +1,45 @@
+// @vitest-environment jsdom
+import { describe, it, expect } from 'vitest';
+import { mockProvider } from './mockService';
+
+describe('mockProvider.analyzeSentiment', () => {
+  it.each([
+    ['Thanks, this is great', { score: 1, label: 'positive' }],
+    ['This is broken and I hate it', { score: -1, label: 'negative' }],
+    ['Great idea, but the build failed', { score: 0, label: 'neutral' }],
+    ['What time is it?', { score: 0, label: 'neutral' }],
+  ])('scores %j', async (text, expected) => {
+    expect(await mockProvider.analyzeSentiment(text)).toEqual(expected);
+  });
+
+  it('stops when aborted', async () => {
+    const controller = new AbortController();
+    controller.abort();
+    await expect(mockProvider.analyzeSentiment('great', controller.signal)).rejects.toBeDefined();
+  });
+});
+
+describe('mockProvider.checkLogic', () => {
+  it('calls a reply that restates the prompt sound', async () => {
+    expect(await mockProvider.checkLogic('  Why is the sky blue? ', 'You asked: Why is the sky blue?')).toMatchObject({ verdict: 'sound' });
+  });
+
+  it('calls any other reply uncertain', async () => {
+    expect(await mockProvider.checkLogic('Why is the sky blue?', 'Rayleigh scattering.')).toMatchObject({ verdict: 'uncertain' });
+  });
+});
+
+describe('mockProvider.sendMessageStream', () => {
+  it('leaves no abort listeners behind on the signal', async () => {
+    const controller = new AbortController();
+    let listeners = 0;
+    const add = controller.signal.addEventListener.bind(controller.signal);
+    const remove = controller.signal.removeEventListener.bind(controller.signal);
+    controller.signal.addEventListener = ((...args: Parameters<typeof add>) => { listeners++; add(...args); }) as typeof add;
+    controller.signal.removeEventListener = ((...args: Parameters<typeof remove>) => { listeners--; remove(...args); }) as typeof remove;
+
+    const stream = mockProvider.sendMessageStream([], 'one two three four five', { signal: controller.signal });
+    for await (const _ of stream) { /* drain */ }
+    expect(listeners).toBe(0);
+  });
+});
@@ -0,0 +1,141 @@
+import { ChatProvider, ChatStreamChunk, Role } from "../types";
+import { encodeBase64 } from "./geminiService";
+import { sentimentLabel } from "./analysisService";
+
+/**
+ * Deterministic in-memory backend for offline development.
+ * The same input always produces the same output; nothing leaves the browser.
+ */
+
+const STREAM_DELAY_MS = 30;
+
+const POSITIVE_WORDS = /\b(thanks?|great|love|good|nice|awesome|happy|perfect|excellent|cool)\b/gi;
+const NEGATIVE_WORDS = /\b(bad|hate|wrong|broken|awful|terrible|annoying|sad|angry|fail(?:s|ed)?)\b/gi;
+
+const MOCK_THOUGHTS = [
+  '**Reading the request**\n\nRestating what was asked. ',
+  'Checking the earlier turns for context. ',
+  '\n\n**Planning the answer**\n\nEchoing the prompt back verbatim.',
+];
+
+function hash(text: string): number {
+  let h = 2166136261;
+  for (let i = 0; i < text.length; i++) {
+    h ^= text.charCodeAt(i);
+    h = Math.imul(h, 16777619);
+  }
+  return h >>> 0;
+}
+
+function delay(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+export const mockProvider: ChatProvider = {
+  id: 'mock',
+  label: 'Mock (offline)',
+
+  async *sendMessageStream(chatHistory, currentMessage, config): AsyncGenerator<ChatStreamChunk> {
+    const attachments = config.attachments?.length ? ` with ${config.attachments.length} attachment(s)` : '';
+    const reply = `**Mock response** (turn ${Math.floor(chatHistory.length / 2) + 1}${attachments}):\n\n${currentMessage}`;
+    let thoughts = '';
+    if (config.thinking) {
+      for (const step of MOCK_THOUGHTS) {
+        await delay(STREAM_DELAY_MS * 5, config.signal);
+        thoughts += step;
+        yield { text: '', thoughts };
+      }
+    }
+    const words = reply.split(/(\s+)/);
+    let fullText = '';
+    for (const word of words) {
+      await delay(STREAM_DELAY_MS, config.signal);
+      fullText += word;
+      yield {
+        text: fullText,
+        thoughts: thoughts || undefined,
+        sources: config.grounding ? [{ title: 'Mock Source', uri: 'https://example.com/mock' }] : undefined,
+      };
+    }
+  },
+
+  resolveModel: () => 'mock',
+
+  async generateImage(prompt, signal) {
+    await delay(STREAM_DELAY_MS, signal);
+    const hue = hash(prompt) % 360;
+    const label = prompt.slice(0, 40).replace(/[<>&"']/g, '');
+    const svg = `<svg xmlns="http://www.w3.org/2000/svg" width="512" height="512"><rect width="512" height="512" fill="hsl(${hue},60%,35%)"/><text x="256" y="256" font-family="sans-serif" font-size="20" fill="white" text-anchor="middle">${label}</text></svg>`;
+    return `data:image/svg+xml;base64,${encodeBase64(new TextEncoder().encode(svg))}`;
+  },
+
+  async generateVideo() {
+    throw new Error("Video synthesis is not available in mock mode.");
+  },
+
+  async synthesizeSpeech(text, signal) {
+    await delay(STREAM_DELAY_MS, signal);
+    // A short tone whose pitch is derived from the text, as 24kHz 16-bit PCM.
+    const sampleRate = 24000;
+    const frequency = 220 + (hash(text) % 440);
+    const samples = new Int16Array(sampleRate / 2);
+    for (let i = 0; i < samples.length; i++) {
+      samples[i] = Math.sin((2 * Math.PI * frequency * i) / sampleRate) * 8000;
+    }
+    return new Uint8Array(samples.buffer);
+  },
+
+  async generateSmartTitle(history) {
+    const words = (history.find(m => m.text.trim())?.text || '').split(/\s+/).filter(Boolean).slice(0, 4);
+    return words.length > 0 ? words.join(' ') : "Interface Session";
+  },
+
+  async refinePrompt(prompt) {
+    return prompt.trim().replace(/\s+/g, ' ');
+  },
+
+  async classifyIntent(text) {
+    if (/^(draw|paint|render|generate an? (image|picture))\b/i.test(text.trim())) return 'image';
+    if (/^(animate|generate an? (video|clip))\b/i.test(text.trim())) return 'video';
+    return 'chat';
+  },
+
+  async generateSuggestions(history, signal) {
+    await delay(STREAM_DELAY_MS, signal);
+    const lastPrompt = [...history].reverse().find(m => m.role === Role.USER)?.text.trim() || 'this';
+    const topic = lastPrompt.split(/\s+/).slice(0, 4).join(' ');
+    return [`Tell me more about ${topic}`, `Give an example of ${topic}`, `Summarize that in one line`];
+  },
+
+  async summarizeConversation(history, previousSummary, signal) {
+    await delay(STREAM_DELAY_MS, signal);
+    const prompts = history.filter(m => m.role === Role.USER).map(m => m.text.split(/\s+/).slice(0, 6).join(' '));
+    return [previousSummary, ...prompts.map(p => `The user asked: ${p}.`)].filter(Boolean).join(' ');
+  },
+
+  async analyzeSentiment(text, signal) {
+    await delay(STREAM_DELAY_MS, signal);
+    const positive = text.match(POSITIVE_WORDS)?.length || 0;
+    const negative = text.match(NEGATIVE_WORDS)?.length || 0;
+    const score = positive + negative === 0 ? 0 : (positive - negative) / (positive + negative);
+    return { score, label: sentimentLabel(score) };
+  },
+
+  async checkLogic(question, answer, signal) {
+    await delay(STREAM_DELAY_MS, signal);
+    return answer.includes(question.trim())
+      ? { verdict: 'sound', critique: 'The mock reply restates the prompt verbatim, so it cannot contradict it.' }
+      : { verdict: 'uncertain', critique: 'The mock reply does not restate the prompt, so it could not be checked against it.' };
+  },
+};
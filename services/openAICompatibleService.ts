@@ -0,0 +1,231 @@
+import { Message, Role, Attachment, ChatProvider, ChatStreamConfig, ChatStreamChunk } from "../types";
+import { ULTRA_SYSTEM_INSTRUCTION } from "./geminiService";
+import { INTENT_PROMPT, toGenerationMode } from "./intentService";
+import { SUGGESTIONS_PROMPT, parseSuggestionList } from "./suggestionService";
+import { SUMMARY_PROMPT } from "./contextService";
+import { SENTIMENT_PROMPT, LOGIC_CHECK_PROMPT, toSentiment, toLogicCheck, parseJSONObject } from "./analysisService";
+
+/**
+ * Adapter for any server speaking the OpenAI HTTP dialect
+ * (llama.cpp, Ollama, LM Studio, vLLM...).
+ */
+
+export interface OpenAICompatibleConfig {
+  baseUrl: string;
+  apiKey?: string;
+  chatModel: string;
+  imageModel?: string;
+  ttsModel?: string;
+  ttsVoice?: string;
+}
+
+export const DEFAULT_OPENAI_CONFIG: OpenAICompatibleConfig = {
+  baseUrl: 'http://localhost:11434/v1',
+  chatModel: 'llama3.1',
+  imageModel: 'dall-e-3',
+  ttsModel: 'tts-1',
+  ttsVoice: 'alloy',
+};
+
+type OpenAIContentPart =
+  | { type: 'text'; text: string }
+  | { type: 'image_url'; image_url: { url: string } };
+
+interface OpenAIMessage {
+  role: 'system' | 'user' | 'assistant';
+  content: string | OpenAIContentPart[];
+}
+
+function toContent(text: string, attachments: Attachment[] = []): OpenAIMessage['content'] {
+  const images = attachments.filter(a => a.mimeType.startsWith('image/'));
+  if (images.length === 0) return text;
+  return [
+    ...images.map(a => ({ type: 'image_url' as const, image_url: { url: `data:${a.mimeType};base64,${a.data}` } })),
+    { type: 'text' as const, text },
+  ];
+}
+
+export function createOpenAICompatibleProvider(config: OpenAICompatibleConfig): ChatProvider {
+  const baseUrl = config.baseUrl.replace(/\/+$/, '');
+
+  const request = async (path: string, body: unknown, signal?: AbortSignal): Promise<Response> => {
+    const response = await fetch(`${baseUrl}${path}`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(config.apiKey ? { Authorization: `Bearer ${config.apiKey}` } : {}),
+      },
+      body: JSON.stringify(body),
+      signal,
+    });
+    if (!response.ok) {
+      const detail = await response.text().catch(() => '');
+      throw new Error(`Endpoint responded ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`);
+    }
+    return response;
+  };
+
+  const complete = async (prompt: string, signal?: AbortSignal): Promise<string> => {
+    const response = await request('/chat/completions', {
+      model: config.chatModel,
+      messages: [{ role: 'user', content: prompt }],
+    }, signal);
+    const json = await response.json();
+    return json.choices?.[0]?.message?.content || '';
+  };
+
+  async function* sendMessageStream(
+    chatHistory: Message[],
+    currentMessage: string,
+    streamConfig: ChatStreamConfig
+  ): AsyncGenerator<ChatStreamChunk> {
+    const { signal } = streamConfig;
+    const messages: OpenAIMessage[] = [
+      { role: 'system', content: streamConfig.persona?.systemInstruction || ULTRA_SYSTEM_INSTRUCTION },
+      ...chatHistory.map(msg => ({
+        role: msg.role === Role.USER ? 'user' as const : msg.role === Role.SYSTEM ? 'system' as const : 'assistant' as const,
+        content: toContent(msg.text, msg.attachments),
+      })),
+      { role: 'user', content: toContent(currentMessage, streamConfig.attachments) },
+    ];
+
+    try {
+      const response = await request('/chat/completions', {
+        model: config.chatModel,
+        messages,
+        stream: true,
+        temperature: streamConfig.persona?.temperature ?? 0.2,
+      }, signal);
+      if (!response.body) throw new Error("Endpoint returned an empty stream.");
+
+      const reader = response.body.getReader();
+      const decoder = new TextDecoder();
+      let buffer = '';
+      let fullText = '';
+      let thoughts = '';
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        signal?.throwIfAborted();
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split('\n');
+        buffer = lines.pop() || '';
+        for (const line of lines) {
+          const payload = line.trim();
+          if (!payload.startsWith('data:')) continue;
+          const data = payload.slice(5).trim();
+          if (data === '[DONE]') return;
+          const delta = JSON.parse(data).choices?.[0]?.delta;
+          // Reasoning models served by llama.cpp, vLLM or Ollama stream their thinking in a side field.
+          const reasoning = delta?.reasoning_content || delta?.reasoning;
+          if (reasoning) thoughts += reasoning;
+          if (delta?.content) fullText += delta.content;
+          if (reasoning || delta?.content) yield { text: fullText, thoughts: thoughts || undefined };
+        }
+      }
+    } catch (error) {
+      if (signal?.aborted) throw signal.reason;
+      console.error("Stream error:", error);
+      throw error;
+    }
+  }
+
+  return {
+    id: 'openai',
+    label: 'Local OpenAI-compatible',
+    sendMessageStream,
+    resolveModel: () => config.chatModel,
+
+    async generateImage(prompt, signal) {
+      const response = await request('/images/generations', {
+        model: config.imageModel,
+        prompt,
+        n: 1,
+        size: '1024x1024',
+        response_format: 'b64_json',
+      }, signal);
+      const json = await response.json();
+      const image = json.data?.[0];
+      if (image?.b64_json) return `data:image/png;base64,${image.b64_json}`;
+      if (image?.url) return image.url;
+      throw new Error("Neural visual synthesis failed to yield data.");
+    },
+
+    async generateVideo() {
+      throw new Error("Video synthesis is not supported by the local endpoint.");
+    },
+
+    async synthesizeSpeech(text, signal) {
+      // `pcm` is 24kHz 16-bit mono little-endian, the same shape Gemini TTS returns.
+      const response = await request('/audio/speech', {
+        model: config.ttsModel,
+        voice: config.ttsVoice,
+        input: text,
+        response_format: 'pcm',
+      }, signal);
+      return new Uint8Array(await response.arrayBuffer());
+    },
+
+    async generateSmartTitle(history, signal) {
+      try {
+        const title = await complete(`Short, professional, 2-4 word title for this conversation log: ${history.map(m => m.text).join(" ").slice(0, 500)}`, signal);
+        return title.replace(/["*]/g, '').trim() || "Interface Session";
+      } catch (error) {
+        return "Neural Log";
+      }
+    },
+
+    async refinePrompt(prompt, signal) {
+      try {
+        const refined = await complete(`System Request: Optimize the following prompt for ultra-performance, ensuring clear technical context and concise parameters. Prompt: "${prompt}"`, signal);
+        return refined.trim() || prompt;
+      } catch (error) {
+        return prompt;
+      }
+    },
+
+    async classifyIntent(text, signal) {
+      try {
+        const answer = await complete(`${INTENT_PROMPT(text)}\nReply with exactly one word: chat, image or video.`, signal);
+        return toGenerationMode(answer.trim().toLowerCase().replace(/[^a-z]/g, ''));
+      } catch (error) {
+        if (signal?.aborted) throw signal.reason;
+        return 'chat';
+      }
+    },
+
+    async generateSuggestions(history, signal) {
+      try {
+        const answer = await complete(`${SUGGESTIONS_PROMPT(history)}\n\nReply with only a JSON array of strings.`, signal);
+        return parseSuggestionList(answer);
+      } catch (error) {
+        if (signal?.aborted) throw signal.reason;
+        return [];
+      }
+    },
+
+    async summarizeConversation(history, previousSummary, signal) {
+      return complete(SUMMARY_PROMPT(history, previousSummary), signal);
+    },
+
+    async analyzeSentiment(text, signal) {
+      try {
+        const answer = await complete(`${SENTIMENT_PROMPT(text)}\n\nReply with only a JSON object like {"score": 0.2, "label": "curious"}.`, signal);
+        return toSentiment(parseJSONObject(answer));
+      } catch (error) {
+        if (signal?.aborted) throw signal.reason;
+        return undefined;
+      }
+    },
+
+    async checkLogic(question, answer, signal) {
+      try {
+        const reply = await complete(`${LOGIC_CHECK_PROMPT(question, answer)}\n\nReply with only a JSON object like {"verdict": "sound", "critique": "..."}.`, signal);
+        return toLogicCheck(parseJSONObject(reply));
+      } catch (error) {
+        if (signal?.aborted) throw signal.reason;
+        return undefined;
+      }
+    },
+  };
+}
@@ -0,0 +1,83 @@
+import { ChatSession, GeminiTone, Persona } from "../types";
+import { ULTRA_SYSTEM_INSTRUCTION, TEXT_MODEL, PRO_MODEL } from "./geminiService";
+
+/**
+ * Persona Service: maps tones and user-defined personas to the
+ * system instruction, temperature and model a request is sent with.
+ */
+
+const PERSONAS_KEY = 'ultra_chat_personas_v1';
+
+export const DEFAULT_TONE: GeminiTone = 'turbo';
+
+export const BUILT_IN_PERSONAS: Record<GeminiTone, Persona> = {
+  turbo: {
+    id: 'turbo',
+    name: 'Turbo',
+    systemInstruction: ULTRA_SYSTEM_INSTRUCTION,
+    temperature: 0.2,
+    model: TEXT_MODEL,
+    builtIn: true,
+  },
+  natural: {
+    id: 'natural',
+    name: 'Natural',
+    systemInstruction: 'You are a friendly, approachable assistant. Answer conversationally in plain language, as a knowledgeable friend would. Keep answers clear and accurate, and ask a short clarifying question when the request is ambiguous.',
+    temperature: 0.7,
+    model: TEXT_MODEL,
+    builtIn: true,
+  },
+  professional: {
+    id: 'professional',
+    name: 'Professional',
+    systemInstruction: 'You are a senior consultant. Respond in a formal, structured register: lead with the conclusion, support it with concise evidence, and close with concrete next steps. Avoid slang, humour and speculation; flag assumptions explicitly.',
+    temperature: 0.3,
+    model: PRO_MODEL,
+    builtIn: true,
+  },
+  creative: {
+    id: 'creative',
+    name: 'Creative',
+    systemInstruction: 'You are an imaginative collaborator. Favour vivid language, unexpected angles and multiple alternatives. When brainstorming, offer several distinct ideas rather than one safe answer, while staying on the topic the user set.',
+    temperature: 1.0,
+    model: TEXT_MODEL,
+    builtIn: true,
+  },
+  sarcastic: {
+    id: 'sarcastic',
+    name: 'Sarcastic',
+    systemInstruction: 'You are a witty assistant with a dry, sarcastic sense of humour. Deliver correct, genuinely useful answers, but wrap them in playful irony and deadpan asides. Never let the jokes obscure the facts, and never be cruel.',
+    temperature: 0.9,
+    model: TEXT_MODEL,
+    builtIn: true,
+  },
+};
+
+export function loadCustomPersonas(): Persona[] {
+  try {
+    const saved = localStorage.getItem(PERSONAS_KEY);
+    return saved ? JSON.parse(saved) : [];
+  } catch (e) {
+    console.error(e);
+    return [];
+  }
+}
+
+export function saveCustomPersonas(personas: Persona[]) {
+  localStorage.setItem(PERSONAS_KEY, JSON.stringify(personas));
+}
+
+export function isBuiltInPersonaId(id: string): id is GeminiTone {
+  return id in BUILT_IN_PERSONAS;
+}
+
+/** The persona a session runs with: its custom persona if still present, else its tone. */
+export function resolvePersona(session: Pick<ChatSession, 'tone' | 'personaId'> | undefined, customPersonas: Persona[]): Persona {
+  const custom = session?.personaId ? customPersonas.find(p => p.id === session.personaId) : undefined;
+  return custom || BUILT_IN_PERSONAS[session?.tone || DEFAULT_TONE];
+}
+
+/** Session fields to set when the user picks a persona by id. */
+export function personaSelection(id: string): Pick<ChatSession, 'tone' | 'personaId'> {
+  return isBuiltInPersonaId(id) ? { tone: id, personaId: undefined } : { personaId: id };
+}
@@ -0,0 +1,87 @@
+import { TEXT_MODEL, PRO_MODEL, IMAGE_MODEL, VIDEO_MODEL, TTS_MODEL } from "./geminiService";
+import { UsageRecord } from "./usageService";
+
+/**
+ * Pricing: the editable price table used to estimate spend, and the
+ * soft budget limits checked before a request is sent.
+ */
+
+const PRICES_KEY = 'ultra_chat_prices_v1';
+const LIMITS_KEY = 'ultra_chat_budget_limits_v1';
+
+export interface ModelPrice {
+  inputPerMillion: number; // USD per million input tokens
+  outputPerMillion: number;
+  perImage?: number; // USD per generated image
+  perVideo?: number; // USD per generated clip
+}
+
+export type PriceTable = Record<string, ModelPrice>;
+
+// List prices at the time of writing; they change, hence editable.
+export const DEFAULT_PRICES: PriceTable = {
+  [TEXT_MODEL]: { inputPerMillion: 0.5, outputPerMillion: 3 },
+  [PRO_MODEL]: { inputPerMillion: 2, outputPerMillion: 12 },
+  [IMAGE_MODEL]: { inputPerMillion: 0.3, outputPerMillion: 0, perImage: 0.039 },
+  [VIDEO_MODEL]: { inputPerMillion: 0, outputPerMillion: 0, perVideo: 1.2 },
+  [TTS_MODEL]: { inputPerMillion: 0.5, outputPerMillion: 10 },
+};
+
+export interface BudgetLimits {
+  daily?: number; // USD
+  perSession?: number;
+}
+
+export function loadPrices(): PriceTable {
+  try {
+    const saved = localStorage.getItem(PRICES_KEY);
+    return saved ? { ...DEFAULT_PRICES, ...JSON.parse(saved) } : DEFAULT_PRICES;
+  } catch (e) {
+    console.error(e);
+    return DEFAULT_PRICES;
+  }
+}
+
+export function savePrices(prices: PriceTable) {
+  localStorage.setItem(PRICES_KEY, JSON.stringify(prices));
+}
+
+export function loadBudgetLimits(): BudgetLimits {
+  try {
+    const saved = localStorage.getItem(LIMITS_KEY);
+    return saved ? JSON.parse(saved) : {};
+  } catch (e) {
+    console.error(e);
+    return {};
+  }
+}
+
+export function saveBudgetLimits(limits: BudgetLimits) {
+  localStorage.setItem(LIMITS_KEY, JSON.stringify(limits));
+}
+
+/** Estimated USD cost of one call; models missing from the table cost nothing. */
+export function estimateCost(record: UsageRecord, prices: PriceTable): number {
+  const price = prices[record.model];
+  if (!price) return 0;
+  return (record.inputTokens * price.inputPerMillion + record.outputTokens * price.outputPerMillion) / 1e6
+    + (record.images || 0) * (price.perImage || 0)
+    + (record.videos || 0) * (price.perVideo || 0);
+}
+
+export function formatCost(usd: number): string {
+  if (usd === 0) return '$0';
+  return usd < 0.01 ? `$${usd.toFixed(4)}` : `$${usd.toFixed(2)}`;
+}
+
+/** Human-readable reasons a new request would go over a limit, or none. */
+export function budgetWarnings(limits: BudgetLimits, todayCost: number, sessionCost: number): string[] {
+  const warnings: string[] = [];
+  if (limits.daily !== undefined && todayCost >= limits.daily) {
+    warnings.push(`Today's estimated spend is ${formatCost(todayCost)}, over the daily limit of ${formatCost(limits.daily)}.`);
+  }
+  if (limits.perSession !== undefined && sessionCost >= limits.perSession) {
+    warnings.push(`This session has used ${formatCost(sessionCost)}, over the per-session limit of ${formatCost(limits.perSession)}.`);
+  }
+  return warnings;
+}
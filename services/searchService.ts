@@ -0,0 +1,148 @@
+/**
+ * Session Search: full-text search over message text, attachment names and source titles
+ */
+
+import { ChatSession, Message } from '../types';
+
+export type SearchField = 'text' | 'attachment' | 'source';
+
+export interface SnippetPart {
+  text: string;
+  match: boolean;
+}
+
+export interface SearchResult {
+  sessionId: string;
+  sessionTitle: string;
+  messageId: string;
+  field: SearchField;
+  snippet: SnippetPart[];
+  score: number;
+}
+
+interface SearchDocument {
+  session: ChatSession;
+  message: Message;
+  field: SearchField;
+  text: string;
+  terms: Map<string, number>; // term -> occurrences
+}
+
+const FIELD_WEIGHTS: Record<SearchField, number> = { text: 1, attachment: 1.5, source: 1.2 };
+const SNIPPET_RADIUS = 60;
+const MAX_RESULTS = 50;
+const RECENCY_HALF_LIFE_MS = 30 * 24 * 60 * 60 * 1000;
+
+const tokenize = (text: string) => text.toLowerCase().match(/[\p{L}\p{N}_]+/gu) || [];
+
+function countTerms(text: string): Map<string, number> {
+  const terms = new Map<string, number>();
+  for (const token of tokenize(text)) terms.set(token, (terms.get(token) || 0) + 1);
+  return terms;
+}
+
+// Sessions are replaced rather than mutated, so an index per session object stays valid until it changes.
+const indexCache = new WeakMap<ChatSession, SearchDocument[]>();
+
+function indexSession(session: ChatSession): SearchDocument[] {
+  const cached = indexCache.get(session);
+  if (cached) return cached;
+  const docs: SearchDocument[] = [];
+  const add = (message: Message, field: SearchField, text: string) => {
+    if (text.trim()) docs.push({ session, message, field, text, terms: countTerms(text) });
+  };
+  for (const message of session.messages) {
+    if (message.isError) continue;
+    add(message, 'text', message.text);
+    message.attachments?.forEach(a => add(message, 'attachment', a.name));
+    message.sources?.forEach(s => add(message, 'source', s.title));
+  }
+  indexCache.set(session, docs);
+  return docs;
+}
+
+/** Occurrences of `term` in a document; the last query term also matches as a prefix while typing. */
+function termHits(doc: SearchDocument, term: string, prefix: boolean): number {
+  if (!prefix) return doc.terms.get(term) || 0;
+  let hits = 0;
+  doc.terms.forEach((count, token) => { if (token.startsWith(term)) hits += count; });
+  return hits;
+}
+
+function buildSnippet(text: string, terms: string[]): SnippetPart[] {
+  const alternatives = terms.map(t => t.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')).join('|');
+  const pattern = new RegExp(`(?<![\\p{L}\\p{N}_])(?:${alternatives})`, 'giu');
+  const flat = text.replace(/\s+/g, ' ');
+  const first = flat.search(pattern);
+  const start = Math.max(0, first - SNIPPET_RADIUS);
+  const end = Math.min(flat.length, Math.max(first, 0) + SNIPPET_RADIUS * 2);
+  const window = (start > 0 ? '…' : '') + flat.slice(start, end) + (end < flat.length ? '…' : '');
+
+  const parts: SnippetPart[] = [];
+  let last = 0;
+  for (const match of window.matchAll(pattern)) {
+    if (match.index! > last) parts.push({ text: window.slice(last, match.index), match: false });
+    parts.push({ text: match[0], match: true });
+    last = match.index! + match[0].length;
+  }
+  if (last < window.length) parts.push({ text: window.slice(last), match: false });
+  return parts;
+}
+
+/**
+ * Ranks messages containing every query term. Scores weigh term frequency
+ * by field, favour rarer terms and matching session titles, and decay
+ * gently with age. One result is returned per message.
+ */
+export function searchSessions(sessions: ChatSession[], query: string): SearchResult[] {
+  const terms = [...new Set(tokenize(query))];
+  if (terms.length === 0) return [];
+  const endsWithTerm = /[\p{L}\p{N}_]$/u.test(query);
+
+  const docs = sessions.flatMap(indexSession);
+  const documentFrequency = terms.map((term, i) =>
+    docs.filter(d => termHits(d, term, endsWithTerm && i === terms.length - 1) > 0).length);
+
+  const byMessage = new Map<string, { doc: SearchDocument; score: number; matched: Set<string> }>();
+  for (const doc of docs) {
+    let score = 0;
+    const matched = new Set<string>();
+    terms.forEach((term, i) => {
+      const hits = termHits(doc, term, endsWithTerm && i === terms.length - 1);
+      if (hits === 0) return;
+      matched.add(term);
+      const idf = Math.log(1 + docs.length / documentFrequency[i]);
+      score += (1 + Math.log(hits)) * idf * FIELD_WEIGHTS[doc.field];
+    });
+    if (score === 0) continue;
+
+    const entry = byMessage.get(doc.message.id);
+    if (entry) {
+      entry.score += score;
+      matched.forEach(t => entry.matched.add(t));
+      if (doc.field === 'text' && entry.doc.field !== 'text') entry.doc = doc;
+    } else {
+      byMessage.set(doc.message.id, { doc, score, matched });
+    }
+  }
+
+  const now = Date.now();
+  const results: SearchResult[] = [];
+  byMessage.forEach(({ doc, score, matched }) => {
+    if (matched.size < terms.length) return;
+    const titleTerms = tokenize(doc.session.title);
+    const titleBonus = terms.some(t => titleTerms.some(w => w.startsWith(t))) ? 1.25 : 1;
+    const age = Math.max(0, now - doc.message.timestamp);
+    const recency = 0.75 + 0.25 * Math.pow(0.5, age / RECENCY_HALF_LIFE_MS);
+    results.push({
+      sessionId: doc.session.id,
+      sessionTitle: doc.session.title,
+      messageId: doc.message.id,
+      field: doc.field,
+      snippet: buildSnippet(doc.text, terms),
+      score: score * titleBonus * recency,
+    });
+  });
+
+  return results.sort((a, b) => b.score - a.score).slice(0, MAX_RESULTS);
+}
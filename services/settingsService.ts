@@ -0,0 +1,68 @@
+import { ChatSession, Persona } from "../types";
+import { DEFAULT_TONE } from "./personaService";
+import { DEFAULT_CONTEXT_STRATEGY } from "./contextService";
+
+/**
+ * Session Settings: the per-session generation settings and the
+ * user-configurable defaults new sessions start from.
+ */
+
+const DEFAULTS_KEY = 'ultra_chat_session_defaults_v1';
+
+export type SessionSettings = Pick<ChatSession,
+  'tone' | 'personaId' | 'groundingEnabled' | 'thinkingEnabled' | 'thinkingBudget' | 'model' | 'temperature' | 'systemInstruction' | 'suggestionsEnabled' | 'analysisEnabled' | 'contextStrategy'>;
+
+const SETTING_KEYS: (keyof SessionSettings)[] = [
+  'tone', 'personaId', 'groundingEnabled', 'thinkingEnabled', 'thinkingBudget', 'model', 'temperature', 'systemInstruction', 'suggestionsEnabled', 'analysisEnabled', 'contextStrategy',
+];
+
+// Sessions saved before settings were per-session fall back to the old global defaults.
+export const FACTORY_DEFAULTS: SessionSettings = {
+  tone: DEFAULT_TONE,
+  groundingEnabled: true,
+  thinkingEnabled: false,
+  suggestionsEnabled: true,
+  analysisEnabled: false,
+  contextStrategy: DEFAULT_CONTEXT_STRATEGY,
+};
+
+export function loadSessionDefaults(): SessionSettings {
+  try {
+    const saved = localStorage.getItem(DEFAULTS_KEY);
+    return saved ? { ...FACTORY_DEFAULTS, ...pickSettings(JSON.parse(saved)) } : FACTORY_DEFAULTS;
+  } catch (e) {
+    console.error(e);
+    return FACTORY_DEFAULTS;
+  }
+}
+
+export function saveSessionDefaults(defaults: SessionSettings) {
+  localStorage.setItem(DEFAULTS_KEY, JSON.stringify(defaults));
+}
+
+/** The settings stored on `source`, with missing toggles filled from the factory defaults. */
+export function pickSettings(source: Partial<SessionSettings>): SessionSettings {
+  const settings = Object.fromEntries(SETTING_KEYS.filter(key => source[key] !== undefined).map(key => [key, source[key]])) as SessionSettings;
+  return {
+    ...settings,
+    groundingEnabled: settings.groundingEnabled ?? FACTORY_DEFAULTS.groundingEnabled,
+    thinkingEnabled: settings.thinkingEnabled ?? FACTORY_DEFAULTS.thinkingEnabled,
+    suggestionsEnabled: settings.suggestionsEnabled ?? FACTORY_DEFAULTS.suggestionsEnabled,
+    analysisEnabled: settings.analysisEnabled ?? FACTORY_DEFAULTS.analysisEnabled,
+    contextStrategy: settings.contextStrategy ?? FACTORY_DEFAULTS.contextStrategy,
+  };
+}
+
+/** The persona with the session's temperature and system instruction overrides applied. */
+export function applySettingOverrides(persona: Persona, settings: SessionSettings): Persona {
+  return {
+    ...persona,
+    temperature: settings.temperature ?? persona.temperature,
+    systemInstruction: settings.systemInstruction?.trim() || persona.systemInstruction,
+  };
+}
+
+/** A patch that replaces every setting on a session, clearing overrides `settings` does not set. */
+export function replaceSettings(settings: SessionSettings): SessionSettings {
+  return Object.fromEntries(SETTING_KEYS.map(key => [key, settings[key]])) as SessionSettings;
+}
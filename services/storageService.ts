@@ -0,0 +1,377 @@
+/**
+ * Session Store: IndexedDB persistence for chat sessions
+ */
+
+import { Attachment, ChatSession, Message } from '../types';
+import { decodeBase64, encodeBase64 } from './geminiService';
+
+const DB_NAME = 'ultra_chat';
+const DB_VERSION = 1;
+const LEGACY_STORAGE_KEY = 'ultra_chat_sessions_v3.2';
+const SAVE_DEBOUNCE_MS = 500;
+const BLOB_REF = 'idb-blob:';
+
+type SessionRecord = Omit<ChatSession, 'messages'> & { messageIds: string[] };
+type MessageRecord = Message & { sessionId: string };
+
+interface BlobRecord {
+  key: string;
+  sessionId: string;
+  blob: Blob;
+}
+
+// A binary payload found while dehydrating; read only if it needs writing.
+interface BlobSource {
+  source: string; // base64, data: URL or blob: URL the payload came from
+  toBlob: () => Promise<Blob>;
+}
+
+type MediaContent = { attachments?: Attachment[]; generatedImage?: string; generatedVideo?: string };
+
+interface SavedSession {
+  session: ChatSession;
+  messages: Map<string, { message: Message; blobKeys: string[] }>;
+}
+
+type StoreErrorListener = (message: string) => void;
+
+/** Schema upgrades, keyed by the version they upgrade to. */
+const MIGRATIONS: Record<number, (db: IDBDatabase) => void> = {
+  1: (db) => {
+    db.createObjectStore('sessions', { keyPath: 'id' });
+    db.createObjectStore('messages', { keyPath: 'id' }).createIndex('sessionId', 'sessionId');
+    db.createObjectStore('blobs', { keyPath: 'key' }).createIndex('sessionId', 'sessionId');
+    db.createObjectStore('meta');
+  },
+};
+
+function promisify<T>(req: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function completion(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+/** Deletes every record of `store` belonging to `sessionId` whose key is not in `keep`. */
+function deleteBySession(store: IDBObjectStore, sessionId: string, keep?: Set<string>) {
+  const cursorReq = store.index('sessionId').openKeyCursor(IDBKeyRange.only(sessionId));
+  cursorReq.onsuccess = () => {
+    const cursor = cursorReq.result;
+    if (!cursor) return;
+    if (!keep?.has(cursor.primaryKey as string)) store.delete(cursor.primaryKey);
+    cursor.continue();
+  };
+}
+
+function dataUrlToBlob(url: string): Blob {
+  const [header, data] = url.split(',');
+  return new Blob([decodeBase64(data)], { type: header.slice(5).split(';')[0] });
+}
+
+async function blobToBase64(blob: Blob): Promise<string> {
+  return encodeBase64(new Uint8Array(await blob.arrayBuffer()));
+}
+
+/** Captures a data: or blob: media URL into `blobs` under `key`, returning the reference to store instead. */
+function dehydrateUrl(url: string | undefined, key: string, blobs: Map<string, BlobSource>): string | undefined {
+  if (url?.startsWith('data:')) {
+    blobs.set(key, { source: url, toBlob: async () => dataUrlToBlob(url) });
+    return BLOB_REF + key;
+  }
+  if (url?.startsWith('blob:')) {
+    blobs.set(key, { source: url, toBlob: () => fetch(url).then(r => r.blob()) });
+    return BLOB_REF + key;
+  }
+  return url;
+}
+
+function dehydrateContent<T extends MediaContent>(content: T, keyPrefix: string, blobs: Map<string, BlobSource>): T {
+  const attachments = content.attachments?.map((a, i) => {
+    if (a.data.startsWith(BLOB_REF)) return a;
+    const key = `${keyPrefix}/attachment/${i}`;
+    blobs.set(key, { source: a.data, toBlob: async () => new Blob([decodeBase64(a.data)], { type: a.mimeType }) });
+    return { ...a, data: BLOB_REF + key, url: '' };
+  });
+  return {
+    ...content,
+    attachments,
+    generatedImage: dehydrateUrl(content.generatedImage, `${keyPrefix}/image`, blobs),
+    generatedVideo: dehydrateUrl(content.generatedVideo, `${keyPrefix}/video`, blobs),
+  };
+}
+
+/** Replaces binary payloads in a message and its branches with references into `blobs`. */
+function dehydrate(message: Message, blobs: Map<string, BlobSource>): Message {
+  return {
+    ...dehydrateContent(message, message.id, blobs),
+    branches: message.branches?.map((branch, i) => ({
+      ...dehydrateContent(branch, `${message.id}/branch/${i}`, blobs),
+      tail: branch.tail.map(m => dehydrate(m, blobs)),
+    })),
+  };
+}
+
+/** Turns a stored media reference back into a fresh object URL. */
+function rehydrateUrl(url: string | undefined, blobs: Map<string, Blob>): string | undefined {
+  if (!url?.startsWith(BLOB_REF)) return url;
+  const blob = blobs.get(url.slice(BLOB_REF.length));
+  return blob ? URL.createObjectURL(blob) : undefined;
+}
+
+async function rehydrateContent<T extends MediaContent>(content: T, blobs: Map<string, Blob>): Promise<T> {
+  const attachments = content.attachments && await Promise.all(content.attachments.map(async a => {
+    const blob = a.data.startsWith(BLOB_REF) ? blobs.get(a.data.slice(BLOB_REF.length)) : undefined;
+    if (!blob) return a;
+    return { ...a, data: await blobToBase64(blob), url: URL.createObjectURL(blob) };
+  }));
+  return {
+    ...content,
+    attachments,
+    generatedImage: rehydrateUrl(content.generatedImage, blobs),
+    generatedVideo: rehydrateUrl(content.generatedVideo, blobs),
+  };
+}
+
+async function rehydrate(message: Message, blobs: Map<string, Blob>): Promise<Message> {
+  const restored = await rehydrateContent(message, blobs);
+  if (!message.branches) return restored;
+  const branches = await Promise.all(message.branches.map(async branch => ({
+    ...await rehydrateContent(branch, blobs),
+    tail: await Promise.all(branch.tail.map(m => rehydrate(m, blobs))),
+  })));
+  return { ...restored, branches };
+}
+
+function describeError(error: unknown): string {
+  if ((error as DOMException)?.name === 'QuotaExceededError') {
+    return 'Local storage is full. Recent changes are kept in memory only; delete old sessions to free space.';
+  }
+  return `Could not save sessions: ${(error as Error)?.message || error}`;
+}
+
+class SessionStore {
+  private dbPromise: Promise<IDBDatabase> | null = null;
+  private saved = new Map<string, SavedSession>();
+  private writtenBlobs = new Map<string, string>();
+  private pending: ChatSession[] | null = null;
+  private timer: number | null = null;
+  private writing: Promise<void> = Promise.resolve();
+  private listeners = new Set<StoreErrorListener>();
+
+  constructor() {
+    if (typeof window !== 'undefined') {
+      window.addEventListener('pagehide', () => this.flush());
+    }
+  }
+
+  private open(): Promise<IDBDatabase> {
+    if (!this.dbPromise) {
+      this.dbPromise = new Promise((resolve, reject) => {
+        const req = indexedDB.open(DB_NAME, DB_VERSION);
+        req.onupgradeneeded = (e) => {
+          for (let v = e.oldVersion + 1; v <= DB_VERSION; v++) MIGRATIONS[v]?.(req.result);
+        };
+        req.onsuccess = () => resolve(req.result);
+        req.onerror = () => reject(req.error);
+      });
+    }
+    return this.dbPromise;
+  }
+
+  public onError(listener: StoreErrorListener): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private report(error: unknown, message = describeError(error)) {
+    console.error('Session store error', error);
+    this.listeners.forEach(l => l(message));
+  }
+
+  /** Loads all sessions, importing the legacy localStorage snapshot on first run. */
+  public async load(): Promise<ChatSession[]> {
+    const db = await this.open();
+    const imported = await promisify(db.transaction('meta').objectStore('meta').get('legacyImported'));
+    if (!imported) {
+      const legacy = localStorage.getItem(LEGACY_STORAGE_KEY);
+      let sessions: ChatSession[] | null = null;
+      if (legacy) {
+        try {
+          const parsed = JSON.parse(legacy);
+          if (!Array.isArray(parsed)) throw new Error('not a list of sessions');
+          sessions = parsed;
+        } catch (e) {
+          // Left in localStorage for recovery; marking the import done below stops it blocking every start.
+          this.report(e, `Older saved sessions are unreadable and were skipped (${(e as Error)?.message || e}). The raw data is still in localStorage under "${LEGACY_STORAGE_KEY}".`);
+        }
+        if (sessions) {
+          try {
+            await this.write(sessions);
+          } catch (e) {
+            this.report(e);
+            return sessions;
+          }
+        }
+      }
+      const tx = db.transaction('meta', 'readwrite');
+      tx.objectStore('meta').put(true, 'legacyImported');
+      await completion(tx);
+      if (sessions) localStorage.removeItem(LEGACY_STORAGE_KEY);
+    }
+
+    const tx = db.transaction(['sessions', 'messages', 'blobs']);
+    const [sessionRecords, messageRecords, blobRecords] = await Promise.all([
+      promisify(tx.objectStore('sessions').getAll() as IDBRequest<SessionRecord[]>),
+      promisify(tx.objectStore('messages').getAll() as IDBRequest<MessageRecord[]>),
+      promisify(tx.objectStore('blobs').getAll() as IDBRequest<BlobRecord[]>),
+    ]);
+    const messagesById = new Map(messageRecords.map(m => [m.id, m]));
+    const blobs = new Map(blobRecords.map(b => [b.key, b.blob]));
+
+    const sessions = await Promise.all(sessionRecords.map(async ({ messageIds, ...meta }) => {
+      const messages = await Promise.all(messageIds
+        .map(id => messagesById.get(id))
+        .filter((m): m is MessageRecord => !!m)
+        .map(async ({ sessionId, ...m }) => rehydrate(m, blobs)));
+      return { ...meta, messages } as ChatSession;
+    }));
+    sessions.forEach(s => this.markSaved(s));
+    return sessions.sort((a, b) => b.updatedAt - a.updatedAt);
+  }
+
+  private markSaved(session: ChatSession) {
+    const messages = new Map<string, { message: Message; blobKeys: string[] }>();
+    for (const message of session.messages) {
+      const blobs = new Map<string, BlobSource>();
+      dehydrate(message, blobs);
+      blobs.forEach((b, key) => this.writtenBlobs.set(key, b.source));
+      messages.set(message.id, { message, blobKeys: [...blobs.keys()] });
+    }
+    this.saved.set(session.id, { session, messages });
+  }
+
+  /** Schedules a write of `sessions`; rapid calls (e.g. while streaming) coalesce. */
+  public save(sessions: ChatSession[]) {
+    this.pending = sessions;
+    if (this.timer) window.clearTimeout(this.timer);
+    this.timer = window.setTimeout(() => this.flush(), SAVE_DEBOUNCE_MS);
+  }
+
+  public flush(): Promise<void> {
+    if (this.timer) window.clearTimeout(this.timer);
+    this.timer = null;
+    const sessions = this.pending;
+    this.pending = null;
+    if (sessions) {
+      this.writing = this.writing.then(() => this.write(sessions)).catch(e => this.report(e));
+    }
+    return this.writing;
+  }
+
+  /** Writes only the sessions and messages whose object identity changed since the last write. */
+  private async write(sessions: ChatSession[]) {
+    const nextSaved = new Map<string, SavedSession>();
+    const sessionPuts: SessionRecord[] = [];
+    const messagePuts: MessageRecord[] = [];
+    const blobPuts: { key: string; sessionId: string; source: BlobSource }[] = [];
+    const pruned: { sessionId: string; messageIds: Set<string>; blobKeys: Set<string> }[] = [];
+
+    for (const session of sessions) {
+      const prev = this.saved.get(session.id);
+      if (prev?.session === session) {
+        nextSaved.set(session.id, prev);
+        continue;
+      }
+
+      const { messages, ...meta } = session;
+      sessionPuts.push({ ...meta, messageIds: messages.map(m => m.id) });
+
+      const savedMessages = new Map<string, { message: Message; blobKeys: string[] }>();
+      const liveBlobKeys = new Set<string>();
+      for (const message of messages) {
+        const prevMessage = prev?.messages.get(message.id);
+        if (prevMessage?.message === message) {
+          savedMessages.set(message.id, prevMessage);
+          prevMessage.blobKeys.forEach(k => liveBlobKeys.add(k));
+          continue;
+        }
+        const blobs = new Map<string, BlobSource>();
+        messagePuts.push({ ...dehydrate(message, blobs), sessionId: session.id });
+        blobs.forEach((source, key) => {
+          liveBlobKeys.add(key);
+          if (this.writtenBlobs.get(key) !== source.source) blobPuts.push({ key, sessionId: session.id, source });
+        });
+        savedMessages.set(message.id, { message, blobKeys: [...blobs.keys()] });
+      }
+
+      if (prev) pruned.push({ sessionId: session.id, messageIds: new Set(savedMessages.keys()), blobKeys: liveBlobKeys });
+      nextSaved.set(session.id, { session, messages: savedMessages });
+    }
+
+    // Blob URLs must be read before the transaction opens: an IndexedDB
+    // transaction commits as soon as it has no pending requests.
+    const blobRecords: BlobRecord[] = [];
+    const writtenSources = new Map<string, string>(); // unreadable media stays unrecorded, so the next save of its message tries again
+    for (const { key, sessionId, source } of blobPuts) {
+      try {
+        blobRecords.push({ key, sessionId, blob: await source.toBlob() });
+        writtenSources.set(key, source.source);
+      } catch (e) {
+        console.warn(`Media for ${key} is no longer readable`, e);
+      }
+    }
+
+    const db = await this.open();
+    const tx = db.transaction(['sessions', 'messages', 'blobs'], 'readwrite');
+    const sessionStore = tx.objectStore('sessions');
+    const messageStore = tx.objectStore('messages');
+    const blobStore = tx.objectStore('blobs');
+    sessionPuts.forEach(r => sessionStore.put(r));
+    messagePuts.forEach(r => messageStore.put(r));
+    blobRecords.forEach(r => blobStore.put(r));
+    for (const { sessionId, messageIds, blobKeys } of pruned) {
+      deleteBySession(messageStore, sessionId, messageIds);
+      deleteBySession(blobStore, sessionId, blobKeys);
+    }
+    for (const id of this.saved.keys()) {
+      if (nextSaved.has(id)) continue;
+      sessionStore.delete(id);
+      deleteBySession(messageStore, id);
+      deleteBySession(blobStore, id);
+    }
+    await completion(tx);
+
+    this.saved = nextSaved;
+    const live = new Set<string>();
+    nextSaved.forEach(s => s.messages.forEach(m => m.blobKeys.forEach(k => live.add(k))));
+    writtenSources.forEach((source, key) => this.writtenBlobs.set(key, source));
+    for (const key of this.writtenBlobs.keys()) {
+      if (!live.has(key)) this.writtenBlobs.delete(key);
+    }
+  }
+}
+
+/** Revokes the object URLs a session's media and attachments hold; call once it is deleted. */
+export function releaseSessionMedia(session: ChatSession) {
+  const revoke = (media: MediaContent) =>
+    [media.generatedImage, media.generatedVideo, ...(media.attachments || []).map(a => a.url)]
+      .forEach(url => { if (url?.startsWith('blob:')) URL.revokeObjectURL(url); });
+  const release = (message: Message) => {
+    revoke(message);
+    message.branches?.forEach(b => {
+      revoke(b);
+      b.tail.forEach(release);
+    });
+  };
+  session.messages.forEach(release);
+}
+
+export const sessionStore = new SessionStore();
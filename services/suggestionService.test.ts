@@ -0,0 +1,33 @@
+import { describe, it, expect } from 'vitest';
+import { toSuggestions, parseSuggestionList } from './suggestionService';
+
+describe('toSuggestions', () => {
+  it('strips list markers and wrapping quotes', () => {
+    expect(toSuggestions(['1. Explain closures', '2) "Show an example"', '- Compare with classes', "• 'Why not use this?'"])).toEqual([
+      'Explain closures',
+      'Show an example',
+      'Compare with classes',
+      'Why not use this?',
+    ]);
+  });
+
+  it('keeps leading digits that are part of the prompt', () => {
+    expect(toSuggestions(['3D printing tips', '2024 trends in AI', '1.5x faster builds?'])).toEqual(['3D printing tips', '2024 trends in AI', '1.5x faster builds?']);
+  });
+
+  it('drops duplicates, blanks and overlong entries and caps the count', () => {
+    const long = 'x'.repeat(121);
+    expect(toSuggestions(['A', 'a', ' ', long, 'B', 'C', 'D', 'E'])).toEqual(['A', 'B', 'C', 'D']);
+  });
+
+  it('returns none when fewer than two remain or the value is not a list', () => {
+    expect(toSuggestions(['Only one'])).toEqual([]);
+    expect(toSuggestions('1. A\n2. B')).toEqual([]);
+  });
+});
+
+describe('parseSuggestionList', () => {
+  it('finds the array inside prose', () => {
+    expect(parseSuggestionList('Here you go: ["What next?", "Why?"]')).toEqual(['What next?', 'Why?']);
+  });
+});
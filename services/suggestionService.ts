@@ -0,0 +1,45 @@
+import { Message, Role } from "../types";
+
+/**
+ * Suggestion Service: shared prompt and parsing for the follow-up
+ * prompts offered under the latest reply.
+ */
+
+export const MIN_SUGGESTIONS = 2;
+export const MAX_SUGGESTIONS = 4;
+const MAX_SUGGESTION_LENGTH = 120;
+const CONTEXT_CHARS = 2000;
+const LIST_MARKER = /^(?:\d+[.)]|[-*•])\s+/; // "1. ", "2) ", "- ", "• "; not the digits of "3D printing"
+const WRAPPING_QUOTES = /^(["'])(.*)\1$/;
+
+export const SUGGESTIONS_PROMPT = (history: Message[]) => {
+  const transcript = history
+    .filter(m => m.text.trim() && !m.isError)
+    .map(m => `${m.role === Role.USER ? 'User' : 'Assistant'}: ${m.text}`)
+    .join('\n\n')
+    .slice(-CONTEXT_CHARS);
+  return `Suggest ${MIN_SUGGESTIONS} to ${MAX_SUGGESTIONS} short follow-up prompts the user is likely to send next, written in the user's voice and language, each under 12 words and distinct from what was already asked. Conversation:\n\n${transcript}`;
+};
+
+/** Normalises a model's answer into 2-4 distinct prompts; anything malformed yields none. */
+export function toSuggestions(value: unknown): string[] {
+  if (!Array.isArray(value)) return [];
+  const seen = new Set<string>();
+  const suggestions = value
+    .filter((s): s is string => typeof s === 'string')
+    .map(s => s.trim().replace(LIST_MARKER, '').replace(WRAPPING_QUOTES, '$2').trim())
+    .filter(s => s && s.length <= MAX_SUGGESTION_LENGTH && !seen.has(s.toLowerCase()) && seen.add(s.toLowerCase()))
+    .slice(0, MAX_SUGGESTIONS);
+  return suggestions.length >= MIN_SUGGESTIONS ? suggestions : [];
+}
+
+/** Pulls the first JSON array out of free-form text, for backends without structured output. */
+export function parseSuggestionList(text: string): string[] {
+  const match = text.match(/\[[\s\S]*\]/);
+  if (!match) return [];
+  try {
+    return toSuggestions(JSON.parse(match[0]));
+  } catch (e) {
+    return [];
+  }
+}
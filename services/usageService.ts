@@ -0,0 +1,135 @@
+/**
+ * Usage Ledger: a local record of every billable Gemini call, kept so
+ * the dashboard can total tokens, media and estimated cost.
+ */
+
+const LEDGER_KEY = 'ultra_chat_usage_v1';
+const MAX_RECORDS = 5000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type UsageKind = 'chat' | 'image' | 'video' | 'speech' | 'utility';
+
+export interface UsageRecord {
+  id: string;
+  timestamp: number;
+  sessionId?: string;
+  model: string;
+  kind: UsageKind;
+  operation: string; // the geminiService function that made the call
+  inputTokens: number;
+  outputTokens: number; // includes thinking tokens, which bill as output
+  latencyMs: number;
+  images?: number;
+  videos?: number;
+}
+
+/** The subset of a Gemini response's `usageMetadata` the ledger reads. */
+export interface UsageMetadata {
+  promptTokenCount?: number;
+  toolUsePromptTokenCount?: number;
+  candidatesTokenCount?: number;
+  thoughtsTokenCount?: number;
+}
+
+export const tokensFromMetadata = (usage?: UsageMetadata) => ({
+  inputTokens: (usage?.promptTokenCount || 0) + (usage?.toolUsePromptTokenCount || 0),
+  outputTokens: (usage?.candidatesTokenCount || 0) + (usage?.thoughtsTokenCount || 0),
+});
+
+type LedgerListener = (records: UsageRecord[]) => void;
+
+class UsageLedger {
+  private records: UsageRecord[] = [];
+  private listeners = new Set<LedgerListener>();
+
+  constructor() {
+    try {
+      const saved = localStorage.getItem(LEDGER_KEY);
+      if (saved) this.records = JSON.parse(saved);
+    } catch (e) {
+      console.error(e);
+    }
+  }
+
+  public record(entry: Omit<UsageRecord, 'id' | 'timestamp'>) {
+    this.records = [...this.records, { id: crypto.randomUUID(), timestamp: Date.now(), ...entry }].slice(-MAX_RECORDS);
+    this.persist();
+  }
+
+  public all(): UsageRecord[] {
+    return this.records;
+  }
+
+  public clear() {
+    this.records = [];
+    this.persist();
+  }
+
+  public subscribe(listener: LedgerListener): () => void {
+    this.listeners.add(listener);
+    return () => { this.listeners.delete(listener); };
+  }
+
+  private persist() {
+    try {
+      localStorage.setItem(LEDGER_KEY, JSON.stringify(this.records));
+    } catch (e) {
+      console.error('Usage ledger could not be saved', e);
+    }
+    this.listeners.forEach(l => l(this.records));
+  }
+}
+
+export const usageLedger = new UsageLedger();
+
+export interface UsageTotals {
+  calls: number;
+  inputTokens: number;
+  outputTokens: number;
+  images: number;
+  videos: number;
+  speechCalls: number;
+  latencyMs: number;
+  cost: number;
+}
+
+const emptyTotals = (): UsageTotals => ({ calls: 0, inputTokens: 0, outputTokens: 0, images: 0, videos: 0, speechCalls: 0, latencyMs: 0, cost: 0 });
+
+/** Sums `records`, costing each one with `costOf`. */
+export function totalUsage(records: UsageRecord[], costOf: (record: UsageRecord) => number): UsageTotals {
+  const totals = emptyTotals();
+  for (const r of records) {
+    totals.calls++;
+    totals.inputTokens += r.inputTokens;
+    totals.outputTokens += r.outputTokens;
+    totals.images += r.images || 0;
+    totals.videos += r.videos || 0;
+    if (r.kind === 'speech') totals.speechCalls++;
+    totals.latencyMs += r.latencyMs;
+    totals.cost += costOf(r);
+  }
+  return totals;
+}
+
+export function groupUsage(records: UsageRecord[], keyOf: (record: UsageRecord) => string, costOf: (record: UsageRecord) => number): Map<string, UsageTotals> {
+  const groups = new Map<string, UsageRecord[]>();
+  for (const r of records) {
+    const group = groups.get(keyOf(r));
+    if (group) group.push(r);
+    else groups.set(keyOf(r), [r]);
+  }
+  return new Map([...groups].map(([key, group]) => [key, totalUsage(group, costOf)]));
+}
+
+/** Local calendar day, e.g. "2025-03-14". */
+export const dayKey = (timestamp: number) => {
+  const d = new Date(timestamp);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}-${String(d.getDate()).padStart(2, '0')}`;
+};
+
+export const recordsSince = (records: UsageRecord[], days: number) => {
+  const start = new Date();
+  start.setHours(0, 0, 0, 0);
+  const from = start.getTime() - (days - 1) * DAY_MS;
+  return records.filter(r => r.timestamp >= from);
+};
@@ -0,0 +1,33 @@
+// @vitest-environment jsdom
+import { describe, it, expect, beforeEach } from 'vitest';
+import { loadVisionSettings, saveVisionSettings, isMissingCamera, DEFAULT_VISION_SETTINGS } from './visionService';
+
+beforeEach(() => {
+  localStorage.clear();
+});
+
+describe('vision settings', () => {
+  it('round-trips a camera choice', () => {
+    saveVisionSettings({ source: 'device:abc', fps: 1, maxEdge: 640 });
+    expect(loadVisionSettings()).toEqual({ source: 'device:abc', fps: 1, maxEdge: 640 });
+  });
+
+  it('keeps the previous camera while a screen is shared', () => {
+    saveVisionSettings({ source: 'back', fps: 2, maxEdge: 320 });
+    saveVisionSettings({ source: 'screen', fps: 4, maxEdge: 1024 });
+    expect(loadVisionSettings()).toEqual({ source: 'back', fps: 4, maxEdge: 1024 });
+  });
+
+  it('starts on a camera when an older save holds a screen share', () => {
+    localStorage.setItem('ultra_chat_live_vision_v1', JSON.stringify({ source: 'screen', fps: 1, maxEdge: 640 }));
+    expect(loadVisionSettings().source).toBe(DEFAULT_VISION_SETTINGS.source);
+  });
+});
+
+describe('isMissingCamera', () => {
+  it('recognises a device that is gone but not a blocked one', () => {
+    expect(isMissingCamera(new DOMException('', 'OverconstrainedError'))).toBe(true);
+    expect(isMissingCamera(new DOMException('', 'NotFoundError'))).toBe(true);
+    expect(isMissingCamera(new DOMException('', 'NotAllowedError'))).toBe(false);
+  });
+});
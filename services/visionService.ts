@@ -0,0 +1,143 @@
+/**
+ * Vision Service: video sources for Live Mode vision, the size and rate
+ * frames are sampled at, and a frame differ that drops frames the model
+ * has effectively already seen.
+ */
+
+const SETTINGS_KEY = 'ultra_chat_live_vision_v1';
+
+/** Front or back camera by facing mode, a specific enumerated camera, or a shared screen or tab. */
+export type VisionSource = 'front' | 'back' | 'screen' | `device:${string}`;
+
+export interface VisionSettings {
+  source: VisionSource;
+  fps: number;
+  maxEdge: number; // longest side of a sent frame, in pixels
+}
+
+export const FPS_OPTIONS = [0.5, 1, 2, 4];
+export const RESOLUTION_OPTIONS = [
+  { maxEdge: 320, label: 'Low (320px)' },
+  { maxEdge: 640, label: 'Medium (640px)' },
+  { maxEdge: 1024, label: 'High (1024px)' },
+];
+
+export const DEFAULT_VISION_SETTINGS: VisionSettings = { source: 'front', fps: 2, maxEdge: 320 };
+
+const FRAME_QUALITY = 0.5;
+const SNAPSHOT_QUALITY = 0.9;
+const THUMB_WIDTH = 32;
+const THUMB_HEIGHT = 24;
+const CHANGE_THRESHOLD = 0.02; // mean luma difference, 0..1, below which a frame counts as unchanged
+const KEYFRAME_INTERVAL_MS = 10000; // resend an unchanged scene now and then so the model knows it is still live
+
+/** Screen sharing is never restored: `getDisplayMedia` needs a fresh user gesture, so a session starts on a camera. */
+export function loadVisionSettings(): VisionSettings {
+  try {
+    const saved = localStorage.getItem(SETTINGS_KEY);
+    const settings: VisionSettings = saved ? { ...DEFAULT_VISION_SETTINGS, ...JSON.parse(saved) } : DEFAULT_VISION_SETTINGS;
+    return settings.source === 'screen' ? { ...settings, source: DEFAULT_VISION_SETTINGS.source } : settings;
+  } catch (e) {
+    console.error(e);
+    return DEFAULT_VISION_SETTINGS;
+  }
+}
+
+/** While a screen is shared, the camera saved before it is kept. */
+export function saveVisionSettings(settings: VisionSettings) {
+  const source = settings.source === 'screen' ? loadVisionSettings().source : settings.source;
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify({ ...settings, source }));
+}
+
+export const canShareScreen = () => typeof navigator.mediaDevices?.getDisplayMedia === 'function';
+
+/** Cameras the browser will name; labels stay empty until camera access has been granted once. */
+export async function listCameras(): Promise<MediaDeviceInfo[]> {
+  const devices = await navigator.mediaDevices.enumerateDevices();
+  return devices.filter(d => d.kind === 'videoinput' && d.deviceId);
+}
+
+/** Opens `source` at preview quality; sent frames are scaled down separately. */
+export function openVisionStream(source: VisionSource): Promise<MediaStream> {
+  const size = { width: { ideal: 1920 }, height: { ideal: 1080 } };
+  if (source === 'screen') return navigator.mediaDevices.getDisplayMedia({ video: size, audio: false });
+  if (source.startsWith('device:')) {
+    return navigator.mediaDevices.getUserMedia({ video: { ...size, deviceId: { exact: source.slice('device:'.length) } } });
+  }
+  return navigator.mediaDevices.getUserMedia({ video: { ...size, facingMode: source === 'back' ? 'environment' : 'user' } });
+}
+
+/** The requested camera does not exist, as when a saved device has since been unplugged. */
+export const isMissingCamera = (err: unknown) =>
+  err instanceof DOMException && (err.name === 'NotFoundError' || err.name === 'OverconstrainedError');
+
+export function visionErrorMessage(err: unknown, source: VisionSource): string {
+  const name = err instanceof DOMException ? err.name : '';
+  if (name === 'NotAllowedError' || name === 'SecurityError') {
+    return source === 'screen' ? 'Screen sharing was cancelled or blocked.' : 'Camera access is blocked. Allow it in the site settings.';
+  }
+  if (isMissingCamera(err)) return 'That camera is not available.';
+  if (name === 'NotReadableError' || name === 'AbortError') return 'The camera is in use by another app.';
+  return err instanceof Error ? err.message : 'The video source could not be opened.';
+}
+
+/** Size of a frame from a `width`×`height` video with its longest side capped at `maxEdge`. */
+export function frameSize(width: number, height: number, maxEdge: number) {
+  const scale = Math.min(1, maxEdge / Math.max(width, height, 1));
+  return { width: Math.max(1, Math.round(width * scale)), height: Math.max(1, Math.round(height * scale)) };
+}
+
+/** Draws the current frame of `video` and encodes it as base64 JPEG. */
+export async function encodeFrame(video: HTMLVideoElement, canvas: HTMLCanvasElement, maxEdge: number, quality = FRAME_QUALITY): Promise<string | null> {
+  const { width, height } = frameSize(video.videoWidth, video.videoHeight, maxEdge);
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return null;
+  ctx.drawImage(video, 0, 0, width, height);
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', quality));
+  if (!blob) return null;
+  return new Promise<string>(resolve => {
+    const reader = new FileReader();
+    reader.onloadend = () => resolve((reader.result as string).split(',')[1]);
+    reader.readAsDataURL(blob);
+  });
+}
+
+/** Full-resolution still for attaching to the chat. */
+export const encodeSnapshot = (video: HTMLVideoElement) =>
+  encodeFrame(video, document.createElement('canvas'), Math.max(video.videoWidth, video.videoHeight), SNAPSHOT_QUALITY);
+
+/**
+ * Compares frames on a 32×24 greyscale thumbnail against the last frame
+ * let through, so slow drift still adds up to a change.
+ */
+export class FrameDiffer {
+  private thumb = document.createElement('canvas');
+  private previous: Float32Array | null = null;
+  private lastSentAt = 0;
+
+  constructor() {
+    this.thumb.width = THUMB_WIDTH;
+    this.thumb.height = THUMB_HEIGHT;
+  }
+
+  public hasChanged(video: HTMLVideoElement, now = Date.now()): boolean {
+    const ctx = this.thumb.getContext('2d', { willReadFrequently: true });
+    if (!ctx) return true;
+    ctx.drawImage(video, 0, 0, THUMB_WIDTH, THUMB_HEIGHT);
+    const pixels = ctx.getImageData(0, 0, THUMB_WIDTH, THUMB_HEIGHT).data;
+    const luma = new Float32Array(THUMB_WIDTH * THUMB_HEIGHT);
+    let difference = 0;
+    for (let i = 0; i < luma.length; i++) {
+      luma[i] = (0.299 * pixels[i * 4] + 0.587 * pixels[i * 4 + 1] + 0.114 * pixels[i * 4 + 2]) / 255;
+      if (this.previous) difference += Math.abs(luma[i] - this.previous[i]);
+    }
+    const changed = !this.previous || difference / luma.length >= CHANGE_THRESHOLD || now - this.lastSentAt >= KEYFRAME_INTERVAL_MS;
+    if (changed) {
+      this.previous = luma;
+      this.lastSentAt = now;
+    }
+    return changed;
+  }
+}
@@ -9,6 +9,11 @@ export type DeviceType = 'mobile' | 'laptop';
 
 export type GeminiTone = 'natural' | 'professional' | 'creative' | 'sarcastic' | 'turbo';
 
+export type GenerationMode = 'chat' | 'image' | 'video';
+
+// What the input bar asks for; 'auto' defers to the provider's intent classifier.
+export type InputMode = GenerationMode | 'auto';
+
 export interface Attachment {
   mimeType: string;
   data: string; // base64
@@ -26,6 +31,13 @@ export interface SentimentData {
   label: string;
 }
 
+export type LogicVerdict = 'sound' | 'uncertain' | 'flawed';
+
+export interface LogicCheck {
+  verdict: LogicVerdict;
+  critique: string;
+}
+
 export interface Message {
   id: string;
   role: Role;
@@ -35,10 +47,44 @@ export interface Message {
   generatedVideo?: string; // URL to MP4
   sources?: GroundingSource[];
   suggestions?: string[]; 
-  sentiment?: SentimentData;
-  logicCheck?: string;
+  sentiment?: SentimentData; // user prompts, when analysis is enabled
+  logicCheck?: LogicCheck; // model replies, when analysis is enabled
+  thoughts?: string; // reasoning summary streamed alongside the answer
+  thinkingMs?: number; // time from request until the answer began
   timestamp: number;
+  mode?: GenerationMode; // set on user prompts routed to image or video synthesis
+  live?: 'voice' | 'vision'; // turn spoken in Live Mode; text is the transcript
   isError?: boolean;
+  isStopped?: boolean; // generation cancelled by the user; text is partial
+  branches?: MessageBranch[]; // alternative variants, including the active one
+  activeBranch?: number;
+}
+
+/**
+ * One variant of a message plus the conversation that followed it.
+ * The top-level Message fields are authoritative for the active branch;
+ * its entry here is refreshed whenever the user switches away from it.
+ */
+export type MessageBranch = Omit<Message, 'id' | 'role' | 'branches' | 'activeBranch'> & {
+  tail: Message[];
+};
+
+// How history is trimmed once it exceeds the context budget; every strategy drops the oldest turns as a last resort.
+export type ContextStrategy = 'drop-oldest' | 'drop-attachments' | 'summarize';
+
+/** Running summary standing in for every message up to and including `throughMessageId`. */
+export interface ContextSummary {
+  text: string;
+  throughMessageId: string;
+}
+
+export interface Persona {
+  id: string; // built-in personas use their GeminiTone as id
+  name: string;
+  systemInstruction: string;
+  temperature: number;
+  model?: string; // Gemini model id; other providers use their configured model
+  builtIn?: boolean;
 }
 
 export interface ChatSession {
@@ -47,6 +93,60 @@ export interface ChatSession {
   messages: Message[];
   updatedAt: number;
   tone?: GeminiTone;
+  personaId?: string; // custom persona; takes precedence over tone
   groundingEnabled?: boolean;
   thinkingEnabled?: boolean;
+  thinkingBudget?: number; // tokens; provider default when unset
+  model?: string; // overrides the persona's Gemini model
+  temperature?: number; // overrides the persona's temperature
+  systemInstruction?: string; // overrides the persona's system instruction
+  suggestionsEnabled?: boolean; // follow-up chips cost one extra request per reply
+  analysisEnabled?: boolean; // sentiment and logic check cost two extra requests per reply
+  contextStrategy?: ContextStrategy;
+  contextSummary?: ContextSummary;
+  pinned?: boolean;
+  archived?: boolean; // hidden from the main list but kept and searchable
+  folder?: string;
+  tags?: string[];
+}
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface ChatStreamConfig {
+  persona?: Persona;
+  grounding?: boolean;
+  thinking?: boolean;
+  thinkingBudget?: number;
+  model?: string; // Gemini model id, takes precedence over the persona's
+  attachments?: Attachment[];
+  signal?: AbortSignal;
+  sessionId?: string; // the session the usage ledger bills this call to
+}
+
+export interface ChatStreamChunk {
+  text: string; // accumulated answer so far
+  thoughts?: string; // accumulated reasoning summary, when the model shares one
+  sources?: GroundingSource[];
+}
+
+/**
+ * Backend-agnostic surface the UI talks to. Speech is returned as raw
+ * 16-bit mono PCM at 24kHz so every adapter plays through `decodePCM`.
+ * `sessionId` is the session a metered call is billed to.
+ */
+export interface ChatProvider {
+  id: ProviderId;
+  label: string;
+  sendMessageStream(chatHistory: Message[], currentMessage: string, config: ChatStreamConfig): AsyncGenerator<ChatStreamChunk>;
+  resolveModel(config: ChatStreamConfig): string; // the model sendMessageStream would use
+  generateImage(prompt: string, signal?: AbortSignal, sessionId?: string): Promise<string>;
+  generateVideo(prompt: string, signal?: AbortSignal, sessionId?: string): Promise<string>;
+  synthesizeSpeech(text: string, signal?: AbortSignal, sessionId?: string): Promise<Uint8Array>;
+  generateSmartTitle(history: Message[], signal?: AbortSignal, sessionId?: string): Promise<string>;
+  refinePrompt(prompt: string, signal?: AbortSignal, sessionId?: string): Promise<string>;
+  classifyIntent(text: string, signal?: AbortSignal, sessionId?: string): Promise<GenerationMode>;
+  generateSuggestions(history: Message[], signal?: AbortSignal, sessionId?: string): Promise<string[]>; // empty when none could be made
+  summarizeConversation(history: Message[], previousSummary?: string, signal?: AbortSignal, sessionId?: string): Promise<string>;
+  analyzeSentiment(text: string, signal?: AbortSignal, sessionId?: string): Promise<SentimentData | undefined>;
+  checkLogic(question: string, answer: string, signal?: AbortSignal, sessionId?: string): Promise<LogicCheck | undefined>;
 }
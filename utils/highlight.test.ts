@@ -0,0 +1,18 @@
+import { describe, it, expect } from 'vitest';
+import { highlight } from './highlight';
+
+const operators = (code: string, lang: string) => highlight(code, lang).filter(t => t.type === 'operator').map(t => t.value);
+
+describe('highlight yaml', () => {
+  it('marks the dash of every list item, not only the first line', () => {
+    expect(operators('- a\n- b\n  - c\nkey:\n  - d', 'yaml')).toEqual(['-', '-', '-', '-']);
+  });
+
+  it('leaves dashes inside values alone', () => {
+    expect(operators('name: foo-bar\ndate: 2024-01-02', 'yml')).toEqual([]);
+  });
+
+  it('still marks block scalar indicators', () => {
+    expect(operators('text: |\n  line', 'yaml')).toEqual(['|']);
+  });
+});
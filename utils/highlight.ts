@@ -0,0 +1,185 @@
+/**
+ * Small regex-driven syntax highlighter. Produces tokens rather than HTML
+ * so CodeBlock renders them as React elements, and ships with the bundle.
+ */
+
+export type TokenType = 'comment' | 'string' | 'number' | 'keyword' | 'literal' | 'builtin' | 'function' | 'type' | 'tag' | 'attr' | 'operator' | 'plain';
+
+export interface Token {
+  type: TokenType;
+  value: string;
+}
+
+type Rule = [TokenType, RegExp];
+
+const words = (list: string) => new RegExp(`\\b(?:${list.trim().split(/\s+/).join('|')})\\b`);
+
+const C_COMMENTS: Rule[] = [['comment', /\/\/.*/], ['comment', /\/\*[\s\S]*?(?:\*\/|$)/]];
+const HASH_COMMENT: Rule = ['comment', /#.*/];
+const DQ_STRING: Rule = ['string', /"(?:\\[\s\S]|[^"\\\n])*"?/];
+const SQ_STRING: Rule = ['string', /'(?:\\[\s\S]|[^'\\\n])*'?/];
+const NUMBER: Rule = ['number', /\b(?:0x[\da-f_]+|0b[01_]+|\d[\d_]*(?:\.\d+)?(?:e[+-]?\d+)?)[a-z]*\b/i];
+const FUNCTION: Rule = ['function', /\b[a-zA-Z_$][\w$]*(?=\s*\()/];
+const TYPE_NAME: Rule = ['type', /\b[A-Z][\w$]*\b/];
+const OPERATOR: Rule = ['operator', /[+\-*/%=&|^!<>?:~]+/];
+
+const JS_KEYWORDS = words(`
+  async await break case catch class const continue debugger default delete do else export extends
+  finally for from function if import in instanceof let new of return static super switch this throw
+  try typeof var void while with yield as interface type enum implements declare readonly namespace
+  keyof infer satisfies private protected public abstract`);
+
+const LANGUAGES: Record<string, Rule[]> = {
+  javascript: [
+    ...C_COMMENTS,
+    ['string', /`(?:\\[\s\S]|[^`\\])*`?/], DQ_STRING, SQ_STRING,
+    ['keyword', JS_KEYWORDS],
+    ['literal', words('true false null undefined NaN Infinity')],
+    NUMBER, FUNCTION, TYPE_NAME, OPERATOR,
+  ],
+  python: [
+    HASH_COMMENT,
+    ['string', /(?:[rbuf]{0,2})("""|''')[\s\S]*?(?:\1|$)/i],
+    ['string', /[rbuf]{0,2}"(?:\\[\s\S]|[^"\\\n])*"?/i], ['string', /[rbuf]{0,2}'(?:\\[\s\S]|[^'\\\n])*'?/i],
+    ['keyword', words('and as assert async await break class continue def del elif else except finally for from global if import in is lambda nonlocal not or pass raise return try while with yield match case')],
+    ['literal', words('True False None')],
+    ['builtin', words('print len range int str float list dict set tuple bool open enumerate zip map filter sorted sum min max isinstance super self')],
+    ['function', /@[\w.]+/], NUMBER, FUNCTION, TYPE_NAME, OPERATOR,
+  ],
+  c: [
+    ...C_COMMENTS, ['keyword', /#\s*\w+/], DQ_STRING, SQ_STRING,
+    ['keyword', words('auto break case catch char class const constexpr continue default delete do double else enum explicit extern final float for friend goto if inline int long mutable namespace new noexcept operator override private protected public register return short signed sizeof static struct switch template this throw try typedef typename union unsigned using virtual void volatile while bool')],
+    ['literal', words('true false NULL nullptr')],
+    NUMBER, FUNCTION, TYPE_NAME, OPERATOR,
+  ],
+  java: [
+    ...C_COMMENTS, ['function', /@\w+/], ['string', /"""[\s\S]*?(?:"""|$)/], DQ_STRING, SQ_STRING,
+    ['keyword', words('abstract as async await base break case catch class const continue default do else enum event extends final finally for foreach fun get if implements import in interface internal is let namespace new object operator out override package private protected public readonly record return sealed set static super switch synchronized this throw throws try typeof using val var void volatile when where while yield')],
+    ['literal', words('true false null')],
+    NUMBER, FUNCTION, TYPE_NAME, OPERATOR,
+  ],
+  go: [
+    ...C_COMMENTS, ['string', /`[^`]*`?/], DQ_STRING, SQ_STRING,
+    ['keyword', words('break case chan const continue default defer else fallthrough for func go goto if import interface map package range return select struct switch type var')],
+    ['literal', words('true false nil iota')],
+    ['builtin', words('append cap close copy delete len make new panic print println recover string int int64 float64 byte rune error bool')],
+    NUMBER, FUNCTION, TYPE_NAME, OPERATOR,
+  ],
+  rust: [
+    ...C_COMMENTS, DQ_STRING, ['string', /'(?:\\.|[^'\\])'/], ['type', /'\w+/],
+    ['keyword', words('as async await break const continue crate dyn else enum extern fn for if impl in let loop match mod move mut pub ref return self Self static struct super trait type unsafe use where while')],
+    ['literal', words('true false None Some Ok Err')],
+    ['function', /\b\w+!/], NUMBER, FUNCTION, TYPE_NAME, OPERATOR,
+  ],
+  bash: [
+    HASH_COMMENT, DQ_STRING, SQ_STRING,
+    ['type', /\$\{?[\w@#?*!-]+\}?/],
+    ['keyword', words('if then else elif fi for while until do done case esac in function return local export readonly exit source alias')],
+    ['builtin', words('echo cd ls cat grep sed awk curl wget git npm npx yarn pnpm docker sudo mkdir rm cp mv chmod chown set unset test printf read')],
+    ['operator', /[|&;<>]+/], NUMBER,
+  ],
+  json: [
+    ['attr', /"(?:\\.|[^"\\])*"(?=\s*:)/], DQ_STRING,
+    ['literal', words('true false null')], NUMBER,
+  ],
+  css: [
+    ['comment', /\/\*[\s\S]*?(?:\*\/|$)/], DQ_STRING, SQ_STRING,
+    ['keyword', /@[\w-]+/],
+    ['attr', /[\w-]+(?=\s*:[^;{]*[;}])/],
+    ['tag', /[.#]?[\w-]+(?=[^{}]*\{)/],
+    ['number', /-?\d*\.?\d+(?:px|em|rem|%|vh|vw|s|ms|deg|fr)?\b/], ['literal', /#[\da-f]{3,8}\b/i],
+    FUNCTION,
+  ],
+  markup: [
+    ['comment', /<!--[\s\S]*?(?:-->|$)/],
+    ['tag', /<\/?[\w:-]+|\/?>/],
+    ['attr', /\b[\w:-]+(?==)/],
+    DQ_STRING, SQ_STRING,
+  ],
+  sql: [
+    ['comment', /--.*/], ['comment', /\/\*[\s\S]*?(?:\*\/|$)/], SQ_STRING, DQ_STRING,
+    ['keyword', /\b(?:select|from|where|insert|into|values|update|set|delete|create|table|alter|drop|index|join|inner|left|right|outer|on|group|by|order|having|limit|offset|as|and|or|not|null|is|in|like|between|distinct|union|all|primary|key|foreign|references|default|case|when|then|else|end|with|returning)\b/i],
+    NUMBER, FUNCTION, OPERATOR,
+  ],
+  yaml: [
+    HASH_COMMENT, ['attr', /[\w.-]+(?=\s*:(?:\s|$))/], DQ_STRING, SQ_STRING,
+    ['literal', words('true false null yes no on off')], NUMBER,
+    ['operator', /(?<=^[ \t]*)-(?=[ \t]|$)/m], ['operator', /[|>]/], // `m` so a list dash matches on every line, not only the first
+  ],
+};
+
+const ALIASES: Record<string, string> = {
+  js: 'javascript', jsx: 'javascript', ts: 'javascript', tsx: 'javascript', typescript: 'javascript', mjs: 'javascript',
+  py: 'python', python3: 'python',
+  cpp: 'c', 'c++': 'c', h: 'c', hpp: 'c', cc: 'c',
+  cs: 'java', csharp: 'java', kotlin: 'java', kt: 'java', scala: 'java', swift: 'java',
+  golang: 'go', rs: 'rust',
+  sh: 'bash', shell: 'bash', zsh: 'bash', console: 'bash',
+  scss: 'css', less: 'css',
+  html: 'markup', xml: 'markup', svg: 'markup', vue: 'markup',
+  yml: 'yaml', jsonc: 'json', postgres: 'sql', mysql: 'sql',
+};
+
+const compiled = new Map<string, Rule[]>();
+
+function rulesFor(lang: string): Rule[] | null {
+  const name = ALIASES[lang] || lang;
+  const rules = LANGUAGES[name];
+  if (!rules) return null;
+  if (!compiled.has(name)) {
+    compiled.set(name, rules.map(([type, re]) => [type, new RegExp(re.source, re.flags.replace(/[gy]/g, '') + 'y')]));
+  }
+  return compiled.get(name)!;
+}
+
+export function highlight(code: string, lang: string): Token[] {
+  const rules = rulesFor(lang.toLowerCase());
+  if (!rules) return [{ type: 'plain', value: code }];
+
+  const tokens: Token[] = [];
+  let plain = '';
+  let pos = 0;
+  outer: while (pos < code.length) {
+    for (const [type, re] of rules) {
+      re.lastIndex = pos;
+      const match = re.exec(code);
+      if (match && match[0].length > 0) {
+        if (plain) { tokens.push({ type: 'plain', value: plain }); plain = ''; }
+        tokens.push({ type, value: match[0] });
+        pos += match[0].length;
+        continue outer;
+      }
+    }
+    // Consume a whole identifier so rules never match inside a word.
+    const word = /^[\w$]+/.exec(code.slice(pos, pos + 64));
+    const step = word ? word[0].length : 1;
+    plain += code.slice(pos, pos + step);
+    pos += step;
+  }
+  if (plain) tokens.push({ type: 'plain', value: plain });
+  return tokens;
+}
+
+/** Splits tokens at newlines so each source line can be rendered on its own row. */
+export function tokensByLine(tokens: Token[]): Token[][] {
+  const lines: Token[][] = [[]];
+  for (const token of tokens) {
+    token.value.split('\n').forEach((part, i) => {
+      if (i > 0) lines.push([]);
+      if (part) lines[lines.length - 1].push({ type: token.type, value: part });
+    });
+  }
+  return lines;
+}
+
+const EXTENSIONS: Record<string, string> = {
+  javascript: 'js', js: 'js', jsx: 'jsx', ts: 'ts', typescript: 'ts', tsx: 'tsx',
+  python: 'py', py: 'py', java: 'java', c: 'c', cpp: 'cpp', 'c++': 'cpp', cs: 'cs', csharp: 'cs',
+  go: 'go', golang: 'go', rust: 'rs', rs: 'rs', kotlin: 'kt', swift: 'swift', ruby: 'rb', php: 'php',
+  bash: 'sh', sh: 'sh', shell: 'sh', zsh: 'sh', json: 'json', css: 'css', scss: 'scss',
+  html: 'html', xml: 'xml', svg: 'svg', sql: 'sql', yaml: 'yaml', yml: 'yml', markdown: 'md', md: 'md',
+};
+
+export function fileExtension(lang: string): string {
+  return EXTENSIONS[lang.toLowerCase()] || 'txt';
+}
@@ -0,0 +1,149 @@
+import { describe, it, expect } from 'vitest';
+import { createElement } from 'react';
+import { renderToStaticMarkup } from 'react-dom/server';
+import { sanitizeUrl, parseMarkdown, parseInline } from './markdown';
+import MarkdownRenderer from '../components/MarkdownRenderer';
+
+const render = (content: string) => renderToStaticMarkup(createElement(MarkdownRenderer, { content }));
+
+describe('sanitizeUrl', () => {
+  it.each([
+    'javascript:alert(1)',
+    'JavaScript:alert(1)',
+    'vbscript:msgbox(1)',
+    'data:text/html;base64,PHNjcmlwdD5hbGVydCgxKTwvc2NyaXB0Pg==',
+    'data:image/svg+xml,<svg onload=alert(1)>',
+    ' javascript:alert(1)',
+    'java\tscript:alert(1)',
+    'java\nscript:alert(1)',
+    'java\u0000script:alert(1)',
+    'jav\u0001ascript:alert(1)',
+    'javascript\u007F:alert(1)',
+    '\u0008javascript:alert(1)',
+    'file:///etc/passwd',
+  ])('rejects %j', (url) => {
+    expect(sanitizeUrl(url)).toBeNull();
+  });
+
+  it.each([
+    'https://example.com/a?b=c',
+    'http://example.com',
+    'mailto:someone@example.com',
+    '/relative/path',
+    '#anchor',
+    'page.html',
+  ])('keeps %j', (url) => {
+    expect(sanitizeUrl(url)).toBe(url);
+  });
+});
+
+describe('raw HTML', () => {
+  it('parses tags as text', () => {
+    expect(parseInline('<script>alert(1)</script>')).toEqual([{ type: 'text', value: '<script>alert(1)</script>' }]);
+  });
+
+  it.each([
+    '<script>alert(1)</script>',
+    '<img src=x onerror=alert(1)>',
+    '<iframe src="javascript:alert(1)"></iframe>',
+    '<svg onload=alert(1)>',
+    '**<b onmouseover=alert(1)>bold</b>**',
+    '| <script>alert(1)</script> |\n| --- |\n| <img src=x onerror=alert(1)> |',
+    '> <style>body{display:none}</style>',
+  ])('renders %j escaped', (content) => {
+    const html = render(content);
+    expect(html).not.toMatch(/<(script|img|iframe|svg|style|b)\b/i);
+    expect(html).toContain('&lt;');
+  });
+});
+
+describe('links and images', () => {
+  it.each([
+    '[click](javascript:alert(1))',
+    '[click](JAVASCRIPT:alert(1))',
+    '[click]( javascript:alert(1) )',
+    '[click](<javascript:alert(1)>)',
+    '[click](vbscript:msgbox(1))',
+    '[click](data:text/html,<script>alert(1)</script>)',
+    '![x](javascript:alert(1))',
+    '![x](data:image/svg+xml,<svg/onload=alert(1)>)',
+    '[**nested**](javascript:alert(1))',
+  ])('renders %j without a live href', (content) => {
+    const html = render(content);
+    expect(html).not.toMatch(/href=/i);
+    expect(html).not.toMatch(/<img\b/i);
+  });
+
+  it('keeps safe links and opens them in a new tab without an opener', () => {
+    const html = render('[docs](https://example.com/docs)');
+    expect(html).toContain('href="https://example.com/docs"');
+    expect(html).toContain('rel="noopener noreferrer"');
+  });
+
+  it('renders images as links rather than loading them', () => {
+    const html = render('![pixel](https://tracker.example/p.gif)');
+    expect(html).not.toMatch(/<img\b/i);
+    expect(html).toContain('href="https://tracker.example/p.gif"');
+  });
+
+  it('does not let an attribute break out of href', () => {
+    const html = render('[x](https://example.com/"onmouseover="alert(1))');
+    expect(html).not.toMatch(/onmouseover="/);
+  });
+
+  it('does not autolink other schemes', () => {
+    expect(parseMarkdown('<javascript:alert(1)>')).toEqual([
+      { type: 'paragraph', children: [{ type: 'text', value: '<javascript:alert(1)>' }] },
+    ]);
+  });
+});
+
+describe('deep nesting', () => {
+  it('keeps quotes past the nesting limit as text instead of overflowing the stack', () => {
+    const blocks = parseMarkdown(`${'>'.repeat(5000)} hi`);
+    let depth = 0;
+    let block = blocks[0];
+    while (block.type === 'blockquote') {
+      block = block.children[0];
+      depth++;
+    }
+    expect(depth).toBeLessThanOrEqual(33);
+    expect(block).toEqual({ type: 'paragraph', children: [{ type: 'text', value: `${'>'.repeat(5000 - depth)} hi` }] });
+  });
+
+  it('still renders a deeply nested reply', () => {
+    expect(render(`${'> '.repeat(2000)}hi`)).toContain('hi');
+  });
+});
+
+describe('unmatched delimiters', () => {
+  const timed = (fn: () => void) => {
+    const start = performance.now();
+    fn();
+    return performance.now() - start;
+  };
+
+  it.each([
+    ['emphasis', '_a '],
+    ['strong', '**a '],
+    ['code', '`a '],
+    ['math', '$a '],
+    ['brackets', '['],
+    ['images', '![a '],
+  ])('parses runs of unmatched %s in linear time', (_, unit) => {
+    expect(timed(() => parseInline(unit.repeat(20000)))).toBeLessThan(500);
+  });
+
+  it('still pairs delimiters after unmatched ones', () => {
+    expect(parseInline('[a [b](https://x.test) _c *d*')).toEqual([
+      { type: 'text', value: '[a ' },
+      { type: 'link', href: 'https://x.test', children: [{ type: 'text', value: 'b' }] },
+      { type: 'text', value: ' _c ' },
+      { type: 'em', children: [{ type: 'text', value: 'd' }] },
+    ]);
+  });
+
+  it('keeps deeply nested links as text past the nesting limit', () => {
+    expect(() => parseInline(`${'['.repeat(5000)}x${']'.repeat(5000)}(https://x.test)`)).not.toThrow();
+  });
+});
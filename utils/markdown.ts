@@ -0,0 +1,431 @@
+/**
+ * Markdown parser producing a plain syntax tree. Rendering happens in
+ * MarkdownRenderer through React, so no input is ever treated as HTML:
+ * raw tags come out as literal text and link targets are scheme-checked.
+ */
+
+export type Align = 'left' | 'center' | 'right' | null;
+
+export type Inline =
+  | { type: 'text'; value: string }
+  | { type: 'strong' | 'em' | 'del'; children: Inline[] }
+  | { type: 'code'; value: string }
+  | { type: 'math'; tex: string; display: boolean }
+  | { type: 'link'; href: string | null; children: Inline[] }
+  | { type: 'break' };
+
+export interface ListItem {
+  checked?: boolean; // defined for task list items
+  children: Block[];
+}
+
+export type Block =
+  | { type: 'heading'; level: number; children: Inline[] }
+  | { type: 'paragraph'; children: Inline[] }
+  | { type: 'code'; lang: string; code: string }
+  | { type: 'math'; tex: string }
+  | { type: 'blockquote'; children: Block[] }
+  | { type: 'list'; ordered: boolean; start: number; items: ListItem[] }
+  | { type: 'table'; align: Align[]; header: Inline[][]; rows: Inline[][][] }
+  | { type: 'hr' };
+
+const SAFE_SCHEMES = ['http', 'https', 'mailto'];
+
+/** Returns the URL if it is relative or uses an allowed scheme, otherwise null. */
+export function sanitizeUrl(url: string): string | null {
+  const trimmed = url.trim();
+  // Browsers ignore control characters and whitespace inside a scheme ("java\tscript:").
+  const normalized = trimmed.replace(/[\u0000- \u007F]+/g, '');
+  const scheme = /^([a-z][a-z0-9+.-]*):/i.exec(normalized);
+  if (!scheme) return trimmed;
+  return SAFE_SCHEMES.includes(scheme[1].toLowerCase()) ? trimmed : null;
+}
+
+// ---------------------------------------------------------------------------
+// Block level
+// ---------------------------------------------------------------------------
+
+const FENCE_RE = /^ {0,3}(`{3,}|~{3,})\s*([^`\s]*)[^`]*$/;
+const HEADING_RE = /^ {0,3}(#{1,6})(?:\s+(.*?))?(?:\s+#+)?\s*$/;
+const HR_RE = /^ {0,3}([-*_])(?:\s*\1){2,}\s*$/;
+const MATH_RE = /^ {0,3}\$\$(?:(?!\$\$).)*(?:\$\$\s*)?$/;
+const QUOTE_RE = /^ {0,3}>\s?/;
+const LIST_RE = /^( *)([-*+]|\d{1,9}[.)])(?:\s+(.*)|$)/;
+const TABLE_DELIMITER_RE = /^\s*\|?\s*:?-+:?\s*(?:\|\s*:?-+:?\s*)*\|?\s*$/;
+
+// Quotes and lists nest by recursion; deeper input (">>>>…" from a reply or an import) stays text.
+const MAX_NESTING = 32;
+
+const indentOf = (line: string) => line.length - line.trimStart().length;
+const isBlank = (line: string) => line.trim() === '';
+
+function isTableStart(lines: string[], i: number): boolean {
+  return lines[i].includes('|') && i + 1 < lines.length && TABLE_DELIMITER_RE.test(lines[i + 1]) && lines[i + 1].includes('-');
+}
+
+function startsBlock(lines: string[], i: number): boolean {
+  const line = lines[i];
+  return FENCE_RE.test(line) || MATH_RE.test(line) || HEADING_RE.test(line) || HR_RE.test(line) || QUOTE_RE.test(line)
+    || LIST_RE.test(line) || isTableStart(lines, i);
+}
+
+function splitRow(line: string): string[] {
+  let row = line.trim();
+  if (row.startsWith('|')) row = row.slice(1);
+  if (row.endsWith('|') && !row.endsWith('\\|')) row = row.slice(0, -1);
+  const cells: string[] = [];
+  let current = '';
+  let inCode = false;
+  for (let i = 0; i < row.length; i++) {
+    const ch = row[i];
+    if (ch === '\\' && row[i + 1] === '|') { current += '|'; i++; continue; }
+    if (ch === '`') inCode = !inCode;
+    if (ch === '|' && !inCode) { cells.push(current.trim()); current = ''; continue; }
+    current += ch;
+  }
+  cells.push(current.trim());
+  return cells;
+}
+
+function parseList(lines: string[], start: number, depth: number): { block: Block; next: number } {
+  const first = LIST_RE.exec(lines[start])!;
+  const baseIndent = first[1].length;
+  const ordered = /\d/.test(first[2]);
+  const items: ListItem[] = [];
+  let i = start;
+
+  while (i < lines.length) {
+    const match = LIST_RE.exec(lines[i]);
+    if (!match || match[1].length !== baseIndent || /\d/.test(match[2]) !== ordered) break;
+    const contentIndent = baseIndent + match[2].length + 1;
+    const itemLines = [match[3] || ''];
+    i++;
+    while (i < lines.length) {
+      const line = lines[i];
+      if (isBlank(line)) {
+        // A blank line continues the item only if indented content follows.
+        let j = i + 1;
+        while (j < lines.length && isBlank(lines[j])) j++;
+        if (j < lines.length && indentOf(lines[j]) > baseIndent) {
+          itemLines.push(...lines.slice(i, j).map(() => ''));
+          i = j;
+          continue;
+        }
+        break;
+      }
+      if (indentOf(line) > baseIndent) {
+        itemLines.push(line.slice(Math.min(indentOf(line), contentIndent)));
+        i++;
+        continue;
+      }
+      if (startsBlock(lines, i)) break;
+      itemLines.push(line.trimStart()); // lazy paragraph continuation
+      i++;
+    }
+
+    const task = /^\[([ xX])\]\s+/.exec(itemLines[0]);
+    if (task) itemLines[0] = itemLines[0].slice(task[0].length);
+    items.push({ checked: task ? task[1] !== ' ' : undefined, children: parseBlockLines(itemLines, depth + 1) });
+
+    let j = i;
+    while (j < lines.length && isBlank(lines[j])) j++;
+    const nextItem = j < lines.length ? LIST_RE.exec(lines[j]) : null;
+    if (nextItem && nextItem[1].length === baseIndent && /\d/.test(nextItem[2]) === ordered) i = j;
+    else break;
+  }
+
+  return {
+    block: { type: 'list', ordered, start: ordered ? parseInt(first[2], 10) : 1, items },
+    next: i,
+  };
+}
+
+function parseBlockLines(lines: string[], depth = 0): Block[] {
+  if (depth > MAX_NESTING) return [{ type: 'paragraph', children: parseInline(lines.map(l => l.trim()).filter(Boolean).join('\n')) }];
+  const blocks: Block[] = [];
+  let i = 0;
+
+  while (i < lines.length) {
+    const line = lines[i];
+    if (isBlank(line)) { i++; continue; }
+
+    const fence = FENCE_RE.exec(line);
+    if (fence) {
+      const marker = fence[1];
+      const code: string[] = [];
+      i++;
+      // An unterminated fence runs to the end, which keeps streaming output stable.
+      while (i < lines.length && !new RegExp(`^ {0,3}${marker[0]}{${marker.length},}\\s*$`).test(lines[i])) {
+        code.push(lines[i]);
+        i++;
+      }
+      i++;
+      blocks.push({ type: 'code', lang: fence[2].toLowerCase(), code: code.join('\n') });
+      continue;
+    }
+
+    if (MATH_RE.test(line)) {
+      const first = line.trim().slice(2);
+      if (first.endsWith('$$')) {
+        blocks.push({ type: 'math', tex: first.slice(0, -2).trim() });
+        i++;
+        continue;
+      }
+      const tex = [first];
+      i++;
+      // Like fences, unterminated display math runs to the end while streaming.
+      while (i < lines.length && !lines[i].trimEnd().endsWith('$$')) {
+        tex.push(lines[i]);
+        i++;
+      }
+      if (i < lines.length) tex.push(lines[i].trimEnd().slice(0, -2));
+      i++;
+      blocks.push({ type: 'math', tex: tex.join('\n').trim() });
+      continue;
+    }
+
+    const heading = HEADING_RE.exec(line);
+    if (heading) {
+      blocks.push({ type: 'heading', level: heading[1].length, children: parseInline(heading[2] || '') });
+      i++;
+      continue;
+    }
+
+    if (HR_RE.test(line)) {
+      blocks.push({ type: 'hr' });
+      i++;
+      continue;
+    }
+
+    if (QUOTE_RE.test(line)) {
+      const quoted: string[] = [];
+      while (i < lines.length && !isBlank(lines[i]) && (QUOTE_RE.test(lines[i]) || quoted.length > 0 && !startsBlock(lines, i))) {
+        quoted.push(lines[i].replace(QUOTE_RE, ''));
+        i++;
+      }
+      blocks.push({ type: 'blockquote', children: parseBlockLines(quoted, depth + 1) });
+      continue;
+    }
+
+    if (LIST_RE.test(line)) {
+      const { block, next } = parseList(lines, i, depth);
+      blocks.push(block);
+      i = next;
+      continue;
+    }
+
+    if (isTableStart(lines, i)) {
+      const header = splitRow(line);
+      const align: Align[] = splitRow(lines[i + 1]).map(cell => {
+        const left = cell.startsWith(':');
+        const right = cell.endsWith(':');
+        return left && right ? 'center' : right ? 'right' : left ? 'left' : null;
+      });
+      i += 2;
+      const rows: Inline[][][] = [];
+      while (i < lines.length && !isBlank(lines[i]) && lines[i].includes('|')) {
+        const cells = splitRow(lines[i]);
+        rows.push(header.map((_, c) => parseInline(cells[c] || '')));
+        i++;
+      }
+      blocks.push({ type: 'table', align: header.map((_, c) => align[c] || null), header: header.map(h => parseInline(h)), rows });
+      continue;
+    }
+
+    const paragraph: string[] = [];
+    while (i < lines.length && !isBlank(lines[i]) && (paragraph.length === 0 || !startsBlock(lines, i))) {
+      paragraph.push(lines[i].trim());
+      i++;
+    }
+    blocks.push({ type: 'paragraph', children: parseInline(paragraph.join('\n')) });
+  }
+
+  return blocks;
+}
+
+export function parseMarkdown(source: string): Block[] {
+  return parseBlockLines(source.replace(/\r\n?/g, '\n').replace(/\t/g, '    ').split('\n'));
+}
+
+// ---------------------------------------------------------------------------
+// Inline level
+// ---------------------------------------------------------------------------
+
+const ESCAPABLE = '\\`*_{}[]()#+-.!|~<>$';
+
+const LINK_TARGET_RE = /\(\s*<?((?:[^\s()<>]|\([^\s()<>]*\))*)>?(?:\s+["'][^"']*["'])?\s*\)/y;
+const BRACKET_AUTOLINK_RE = /<((?:https?:\/\/|mailto:)[^\s<>]+)>/iy;
+const BARE_AUTOLINK_RE = /https?:\/\/[^\s<]+[^\s<.,:;"')\]]/iy;
+const BACKTICKS_RE = /`+/y;
+
+function matchAt(re: RegExp, text: string, at: number): RegExpExecArray | null {
+  re.lastIndex = at;
+  return re.exec(text);
+}
+
+function findClosing(text: string, delimiter: string, from: number): number {
+  let i = from;
+  while (i < text.length) {
+    const idx = text.indexOf(delimiter, i);
+    if (idx < 0) return -1;
+    if (text[idx - 1] !== '\\' && !/\s/.test(text[idx - 1])) return idx;
+    i = idx + 1;
+  }
+  return -1;
+}
+
+/**
+ * Finds the `$` closing inline math. Like pandoc, the delimiters must hug
+ * the formula and the closer must not precede a digit, so "$5 and $10" stays text.
+ */
+function findMathClose(text: string, from: number): number {
+  for (let i = from; i < text.length; i++) {
+    if (text[i] === '\\') { i++; continue; }
+    if (text[i] === '$' && !/\s/.test(text[i - 1]) && !/\d/.test(text[i + 1] || '')) return i;
+  }
+  return -1;
+}
+
+/** Index of the `]` matching each `[`, honouring nesting and escapes; -1 when unmatched. One pass over the text. */
+function matchBrackets(text: string): Int32Array {
+  const matches = new Int32Array(text.length).fill(-1);
+  const open: number[] = [];
+  for (let i = 0; i < text.length; i++) {
+    if (text[i] === '\\') { i++; continue; }
+    if (text[i] === '[') open.push(i);
+    else if (text[i] === ']' && open.length) matches[open.pop()!] = i;
+  }
+  return matches;
+}
+
+export function parseInline(text: string, depth = 0): Inline[] {
+  if (depth > MAX_NESTING) return text ? [{ type: 'text', value: text }] : [];
+
+  const nodes: Inline[] = [];
+  let buffer = '';
+  const flush = () => {
+    if (buffer) nodes.push({ type: 'text', value: buffer });
+    buffer = '';
+  };
+
+  // Closer searches only get longer as `i` advances, so once a delimiter has no
+  // closer after some position it has none after any later one either. Remembering
+  // that keeps runs of unmatched openers linear instead of rescanning to the end.
+  const noCloserFrom = new Map<string, number>();
+  const search = (key: string, from: number, find: () => number) => {
+    if (from >= (noCloserFrom.get(key) ?? Infinity)) return -1;
+    const found = find();
+    if (found < 0) noCloserFrom.set(key, from);
+    return found;
+  };
+  let brackets: Int32Array | null = null;
+
+  let i = 0;
+  while (i < text.length) {
+    const ch = text[i];
+
+    if (ch === '\\' && i + 1 < text.length && ESCAPABLE.includes(text[i + 1])) {
+      buffer += text[i + 1];
+      i += 2;
+      continue;
+    }
+
+    if (ch === '\n') {
+      flush();
+      nodes.push({ type: 'break' });
+      i++;
+      continue;
+    }
+
+    if (ch === '`') {
+      const run = matchAt(BACKTICKS_RE, text, i)![0];
+      const close = search(run, i + run.length, () => text.indexOf(run, i + run.length));
+      if (close > 0) {
+        flush();
+        nodes.push({ type: 'code', value: text.slice(i + run.length, close).replace(/^ (.+) $/, '$1') });
+        i = close + run.length;
+        continue;
+      }
+      buffer += run;
+      i += run.length;
+      continue;
+    }
+
+    if (ch === '$') {
+      const display = text.startsWith('$$', i);
+      const open = i + (display ? 2 : 1);
+      if (display) {
+        const close = search('$$', open, () => text.indexOf('$$', open));
+        if (close > open) {
+          flush();
+          nodes.push({ type: 'math', tex: text.slice(open, close).trim(), display: true });
+          i = close + 2;
+          continue;
+        }
+      } else if (text[open] && !/\s/.test(text[open])) {
+        const close = search('$', open, () => findMathClose(text, open));
+        if (close > open) {
+          flush();
+          nodes.push({ type: 'math', tex: text.slice(open, close), display: false });
+          i = close + 1;
+          continue;
+        }
+      }
+      buffer += display ? '$$' : '$';
+      i = open;
+      continue;
+    }
+
+    const strongDelim = text.startsWith('**', i) ? '**' : text.startsWith('__', i) ? '__' : text.startsWith('~~', i) ? '~~' : null;
+    if (strongDelim && text[i + 2] && !/\s/.test(text[i + 2])) {
+      const close = search(strongDelim, i + 2, () => findClosing(text, strongDelim, i + 2));
+      if (close > 0) {
+        flush();
+        nodes.push({ type: strongDelim === '~~' ? 'del' : 'strong', children: parseInline(text.slice(i + 2, close), depth + 1) });
+        i = close + 2;
+        continue;
+      }
+    }
+
+    if ((ch === '*' || ch === '_') && text[i + 1] && !/\s/.test(text[i + 1])
+      && !(ch === '_' && /\w/.test(text[i - 1] || ''))) {
+      const close = search(ch, i + 1, () => findClosing(text, ch, i + 1));
+      if (close > 0 && !(ch === '_' && /\w/.test(text[close + 1] || ''))) {
+        flush();
+        nodes.push({ type: 'em', children: parseInline(text.slice(i + 1, close), depth + 1) });
+        i = close + 1;
+        continue;
+      }
+    }
+
+    if (ch === '[' || (ch === '!' && text[i + 1] === '[')) {
+      const open = ch === '!' ? i + 1 : i;
+      brackets ??= matchBrackets(text);
+      const close = brackets[open];
+      const target = close > 0 ? matchAt(LINK_TARGET_RE, text, close + 1) : null;
+      if (target) {
+        flush();
+        // Images are shown as links so a reply cannot load arbitrary remote content.
+        nodes.push({ type: 'link', href: sanitizeUrl(target[1]), children: parseInline(text.slice(open + 1, close), depth + 1) });
+        i = close + 1 + target[0].length;
+        continue;
+      }
+    }
+
+    const autolink = (ch === '<' ? matchAt(BRACKET_AUTOLINK_RE, text, i) : null)
+      || (ch === 'h' || ch === 'H') && !/\w/.test(text[i - 1] || '') && matchAt(BARE_AUTOLINK_RE, text, i) || null;
+    if (autolink) {
+      const url = autolink[1] || autolink[0];
+      flush();
+      nodes.push({ type: 'link', href: sanitizeUrl(url), children: [{ type: 'text', value: url }] });
+      i += autolink[0].length;
+      continue;
+    }
+
+    buffer += ch;
+    i++;
+  }
+
+  flush();
+  return nodes;
+}